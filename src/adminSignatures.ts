@@ -0,0 +1,535 @@
+import { BN, IdlAccounts, IdlTypes, Program } from "@coral-xyz/anchor";
+import { PACKET_DATA_SIZE, PublicKey, Transaction } from "@solana/web3.js";
+import { randomBytes } from "crypto";
+import nacl from "tweetnacl";
+
+import { Main } from "./types/main";
+import { Collateral } from "./collateral";
+import { DEFAULT_SIGNING_DOMAIN, SigningDomain } from "./signingDomain";
+import { Ed25519ExtendedProgram } from "./utils/ed25519.program";
+import { SignerProvider } from "./signers";
+import { getSignedTransactionSize, sendAndConfirmWithSigner } from "./utils/transaction";
+import {
+  SALT_SIZE,
+  SIGNATURE_SIZE,
+  WithdrawalSignatureParseError,
+  parseAmount,
+  parseBytes,
+  parseInteger,
+  parsePublicKey,
+} from "./withdrawalSignature";
+
+type WithdrawCollateral = {
+  amountOfAsset: BN;
+  signatureExpirationTime: BN;
+  coordinatorSignatureSalt: number[];
+}
+
+type CollateralAccount = IdlAccounts<Main>["collateral"];
+
+/**
+ * The action allowed by a set of admin signatures
+ */
+export type SignatureSubmissionType = IdlTypes<Main>["signatureSubmissionType"];
+
+/**
+ * The fields of the collateral admin withdraw message. Every admin signs the same fields, each
+ * with their own salt.
+ */
+export type AdminWithdrawalMessage = {
+  collateral: PublicKey;
+  /** The admin executing the withdrawal */
+  sender: PublicKey;
+  receiver: PublicKey;
+  asset: PublicKey;
+  withdrawRequest: WithdrawCollateral;
+  adminFundsNonce: number;
+}
+
+/**
+ * Hashes a collateral admin message for the salt of the signing admin
+ */
+export type AdminMessageBuilder = (salt: number[]) => Buffer;
+
+/**
+ * A collateral admin signature produced off-chain, to be submitted by an aggregator
+ */
+export type DetachedAdminSignature = {
+  admin: PublicKey;
+  /** The 32-byte salt of the collateral message domain */
+  salt: number[];
+  /** The 64-byte signature of the collateral withdraw message */
+  signature: Buffer;
+}
+
+/**
+ * An admin signature exported with the withdrawal it signs
+ */
+export type ExportedAdminSignature = {
+  message: AdminWithdrawalMessage;
+  signature: DetachedAdminSignature;
+}
+
+/**
+ * The outcome of submitting admin signatures for a withdrawal
+ */
+export type AdminSignatureSubmission = {
+  collateralSignatureAddress: PublicKey;
+  /** The submission transaction signatures, in order. Empty when there was nothing to submit */
+  transactions: string[];
+  /** The admins that signed the withdrawal on-chain after the submission */
+  signers: PublicKey[];
+  adminThreshold: number;
+}
+
+/**
+ * The signature state of a withdrawal's CollateralAdminSignatures account
+ */
+export type AdminSignatureStatus = {
+  address: PublicKey;
+  /** The admin funds nonce the account address was derived with */
+  adminFundsNonce: number;
+  /** Whether the account was derived with a nonce the collateral has moved past, in which case
+   * its signatures can no longer be used */
+  stale: boolean;
+  /** Whether the account exists on-chain */
+  exists: boolean;
+  isInProgress: boolean;
+  /** The collateral admins that signed */
+  signed: PublicKey[];
+  /** The collateral admins that have not signed yet */
+  missing: PublicKey[];
+  /** The signers that are no longer collateral admins */
+  formerAdmins: PublicKey[];
+  adminThreshold: number;
+  /** The number of signatures still needed to meet the threshold */
+  remaining: number;
+}
+
+/**
+ * The signature state of a withdrawal at the current nonce, and of the accounts left over from
+ * previous nonces
+ */
+export type AdminSignatureInspection = {
+  current: AdminSignatureStatus;
+  stale: AdminSignatureStatus[];
+}
+
+/**
+ * The number of previous admin funds nonces checked for stale signature accounts
+ */
+const STALE_NONCE_SEARCH_RANGE = 5;
+
+/**
+ * Hashes the collateral withdraw message signed by the admins
+ * @param message - The withdraw message fields
+ * @param salt - The salt of the signing admin
+ * @param domain - The signing domain of the program deployment. Defaults to the mainnet one
+ * @returns The 32-byte message to sign
+ */
+export function getAdminWithdrawalMessage(
+  message: AdminWithdrawalMessage,
+  salt: number[],
+  domain: SigningDomain = DEFAULT_SIGNING_DOMAIN,
+): Buffer {
+  return Collateral.getWithdrawMessage(
+    message.collateral,
+    message.sender,
+    message.receiver,
+    message.asset,
+    message.withdrawRequest,
+    salt,
+    message.adminFundsNonce,
+    domain
+  );
+}
+
+/**
+ * Derives the CollateralAdminSignatures account collecting the admin signatures of a withdrawal
+ * @param message - The withdraw message fields
+ * @param programId - The Main program ID
+ * @returns The CollateralAdminSignatures account address
+ */
+export function getAdminSignaturesAddress(message: AdminWithdrawalMessage, programId: PublicKey): PublicKey {
+  return Collateral.generateWithdrawCollateralPDA(
+    message.collateral,
+    message.sender,
+    message.receiver,
+    message.asset,
+    message.withdrawRequest,
+    message.adminFundsNonce,
+    programId
+  );
+}
+
+/**
+ * Signs a collateral admin message with a fresh random salt, without submitting it
+ * @param signer - The admin signing the message
+ * @param getMessage - Hashes the message for a given salt
+ * @returns The detached signature
+ */
+export async function signAdminMessage(
+  signer: SignerProvider,
+  getMessage: AdminMessageBuilder,
+): Promise<DetachedAdminSignature> {
+  const salt = Array.from(randomBytes(SALT_SIZE)).map(Number);
+  const signature = await signer.signMessage(Uint8Array.from(getMessage(salt)));
+  return { admin: signer.publicKey, salt, signature: Buffer.from(signature) };
+}
+
+/**
+ * Verifies a detached admin signature against a collateral admin message
+ * @param getMessage - Hashes the message for a given salt
+ * @param signature - The detached signature
+ * @returns Whether the admin signed the message
+ */
+export function verifyAdminSignature(getMessage: AdminMessageBuilder, signature: DetachedAdminSignature): boolean {
+  return signature.signature.length === SIGNATURE_SIZE && nacl.sign.detached.verify(
+    getMessage(signature.salt),
+    signature.signature,
+    signature.admin.toBytes()
+  );
+}
+
+/**
+ * Signs the collateral withdraw message with a fresh random salt, without submitting it
+ * @param signer - The admin signing the withdrawal
+ * @param message - The withdraw message fields
+ * @param domain - The signing domain of the program deployment. Defaults to the mainnet one
+ * @returns The detached signature
+ */
+export async function createDetachedAdminSignature(
+  signer: SignerProvider,
+  message: AdminWithdrawalMessage,
+  domain: SigningDomain = DEFAULT_SIGNING_DOMAIN,
+): Promise<DetachedAdminSignature> {
+  return signAdminMessage(signer, salt => getAdminWithdrawalMessage(message, salt, domain));
+}
+
+/**
+ * Verifies a detached admin signature against the withdraw message
+ * @param message - The withdraw message fields
+ * @param signature - The detached signature
+ * @param domain - The signing domain of the program deployment. Defaults to the mainnet one
+ * @returns Whether the admin signed the message
+ */
+export function verifyDetachedAdminSignature(
+  message: AdminWithdrawalMessage,
+  signature: DetachedAdminSignature,
+  domain: SigningDomain = DEFAULT_SIGNING_DOMAIN,
+): boolean {
+  return verifyAdminSignature(salt => getAdminWithdrawalMessage(message, salt, domain), signature);
+}
+
+/**
+ * Keeps the signatures worth submitting: valid signatures of distinct collateral admins that have
+ * not signed on-chain yet, up to the number still missing to reach the threshold. The others are
+ * reported on the console.
+ * @param getMessage - Hashes the signed message for a given salt
+ * @param signatures - The candidate signatures
+ * @param collateralAccount - The collateral account
+ * @param existingSigners - The admins that already signed on-chain
+ * @returns The signatures to submit
+ */
+export function selectAdminSignatures(
+  getMessage: AdminMessageBuilder,
+  signatures: DetachedAdminSignature[],
+  collateralAccount: CollateralAccount,
+  existingSigners: PublicKey[],
+): DetachedAdminSignature[] {
+  const missing = collateralAccount.adminThreshold - existingSigners.length;
+  const selected: DetachedAdminSignature[] = [];
+  for (const signature of signatures) {
+    const admin = signature.admin.toBase58();
+    if (!collateralAccount.admins.some(key => key.equals(signature.admin))) {
+      console.warn(`Skipping signature of ${admin}: not a collateral admin`);
+    } else if ([...existingSigners, ...selected.map(s => s.admin)].some(key => key.equals(signature.admin))) {
+      console.warn(`Skipping signature of ${admin}: already signed`);
+    } else if (!verifyAdminSignature(getMessage, signature)) {
+      console.warn(`Skipping signature of ${admin}: it does not match the signed message`);
+    } else if (selected.length >= missing) {
+      console.warn(`Skipping signature of ${admin}: the threshold is already met`);
+    } else {
+      selected.push(signature);
+    }
+  }
+  return selected;
+}
+
+/**
+ * Builds the transaction submitting several admin signatures in a single `submitSignatures` call:
+ * one Ed25519 verification instruction holding every signature, followed by the instruction with
+ * the salts in the same order
+ * @param program - The Main program
+ * @param collateral - The collateral account
+ * @param collateralSignatureAddress - The CollateralAdminSignatures account of the action
+ * @param signatureSubmissionType - The action the signatures allow
+ * @param targetNonce - The collateral nonce the signatures were made for
+ * @param getMessage - Hashes the signed message for a given salt
+ * @param signatures - The admin signatures
+ * @param rentPayer - The payer of the CollateralAdminSignatures account rent, with no required role
+ * @returns The submission transaction
+ */
+export async function buildSignatureSubmissionTransaction(
+  program: Program<Main>,
+  collateral: PublicKey,
+  collateralSignatureAddress: PublicKey,
+  signatureSubmissionType: SignatureSubmissionType,
+  targetNonce: number,
+  getMessage: AdminMessageBuilder,
+  signatures: DetachedAdminSignature[],
+  rentPayer: PublicKey,
+): Promise<Transaction> {
+  const signatureVerificationInstruction = Ed25519ExtendedProgram.createSignatureVerificationInstruction(
+    signatures.map(signature => ({
+      signer: signature.admin,
+      signature: signature.signature,
+      message: getMessage(signature.salt),
+    }))
+  );
+
+  return program.methods.submitSignatures({
+    salts: signatures.map(signature => signature.salt),
+    targetNonce,
+    signatureSubmissionType,
+  }).accounts({
+    collateral,
+    collateralAdminSignatures: collateralSignatureAddress,
+    rentPayer,
+  }).preInstructions([
+    signatureVerificationInstruction
+  ]).transaction();
+}
+
+/**
+ * Builds the transaction submitting several admin signatures of a withdrawal at once
+ * @param program - The Main program
+ * @param message - The withdraw message fields
+ * @param signatures - The admin signatures
+ * @param rentPayer - The payer of the CollateralAdminSignatures account rent, with no required role
+ * @param domain - The signing domain of the program deployment. Defaults to the mainnet one
+ * @returns The submission transaction
+ */
+export async function buildAdminSignaturesTransaction(
+  program: Program<Main>,
+  message: AdminWithdrawalMessage,
+  signatures: DetachedAdminSignature[],
+  rentPayer: PublicKey,
+  domain: SigningDomain = DEFAULT_SIGNING_DOMAIN,
+): Promise<Transaction> {
+  return buildSignatureSubmissionTransaction(
+    program,
+    message.collateral,
+    getAdminSignaturesAddress(message, program.programId),
+    {
+      withdrawCollateralAsset: {
+        sender: message.sender,
+        receiver: message.receiver,
+        asset: message.asset,
+        withdrawRequest: message.withdrawRequest,
+      }
+    },
+    message.adminFundsNonce,
+    salt => getAdminWithdrawalMessage(message, salt, domain),
+    signatures,
+    rentPayer
+  );
+}
+
+/**
+ * Builds the transactions submitting several admin signatures of a withdrawal, each batching as
+ * many signatures as fit in a transaction. The program adds each submission to the signers of the
+ * CollateralAdminSignatures account, so the transactions are sent one after the other.
+ * @param program - The Main program
+ * @param message - The withdraw message fields
+ * @param signatures - The admin signatures
+ * @param rentPayer - The fee payer, paying the CollateralAdminSignatures account rent
+ * @param domain - The signing domain of the program deployment. Defaults to the mainnet one
+ * @returns The submission transactions, in order
+ *
+ * @throws Error if a single signature does not fit in a transaction
+ */
+export async function buildAdminSignaturesTransactions(
+  program: Program<Main>,
+  message: AdminWithdrawalMessage,
+  signatures: DetachedAdminSignature[],
+  rentPayer: PublicKey,
+  domain: SigningDomain = DEFAULT_SIGNING_DOMAIN,
+): Promise<Transaction[]> {
+  const transactions: Transaction[] = [];
+  let start = 0;
+  while (start < signatures.length) {
+    let end = start + 1;
+    let transaction = await buildAdminSignaturesTransaction(program, message, signatures.slice(start, end), rentPayer, domain);
+    const size = getSignedTransactionSize(transaction, rentPayer);
+    if (size > PACKET_DATA_SIZE) {
+      throw new Error(
+        `Submitting a single admin signature takes ${size} bytes, above the ${PACKET_DATA_SIZE}-byte transaction limit`
+      );
+    }
+    while (end < signatures.length) {
+      const larger = await buildAdminSignaturesTransaction(program, message, signatures.slice(start, end + 1), rentPayer, domain);
+      if (getSignedTransactionSize(larger, rentPayer) > PACKET_DATA_SIZE) {
+        break;
+      }
+      transaction = larger;
+      end++;
+    }
+    transactions.push(transaction);
+    start = end;
+  }
+  return transactions;
+}
+
+/**
+ * Submits the admin signatures collected off-chain for a withdrawal, batched in as few
+ * transactions as fit them
+ * @param program - The Main program
+ * @param message - The withdraw message fields
+ * @param signatures - The admin signatures. Invalid, duplicate and unneeded ones are skipped
+ * @param payer - The signer paying for the transaction and the account rent
+ * @param domain - The signing domain of the program deployment. Defaults to the mainnet one
+ * @returns The submission outcome, with the on-chain signers and the admin threshold
+ *
+ * @throws Error if the collateral admin funds nonce moved since the withdrawal was signed
+ */
+export async function submitAdminSignatures(
+  program: Program<Main>,
+  message: AdminWithdrawalMessage,
+  signatures: DetachedAdminSignature[],
+  payer: SignerProvider,
+  domain: SigningDomain = DEFAULT_SIGNING_DOMAIN,
+): Promise<AdminSignatureSubmission> {
+  const collateralAccount = await program.account.collateral.fetch(message.collateral);
+  if (collateralAccount.adminFundsNonce !== message.adminFundsNonce) {
+    throw new Error(
+      `The signatures were made for adminFundsNonce ${message.adminFundsNonce}, but the collateral is at ${collateralAccount.adminFundsNonce}. Collect new signatures.`
+    );
+  }
+
+  const collateralSignatureAddress = getAdminSignaturesAddress(message, program.programId);
+  const signaturesAccount = await program.account.collateralAdminSignatures.fetchNullable(collateralSignatureAddress);
+  const existingSigners = signaturesAccount?.signers ?? [];
+  const selected = selectAdminSignatures(
+    salt => getAdminWithdrawalMessage(message, salt, domain),
+    signatures,
+    collateralAccount,
+    existingSigners
+  );
+  if (selected.length === 0) {
+    return {
+      collateralSignatureAddress,
+      transactions: [],
+      signers: existingSigners,
+      adminThreshold: collateralAccount.adminThreshold,
+    };
+  }
+
+  const transactions: string[] = [];
+  for (const transaction of await buildAdminSignaturesTransactions(program, message, selected, payer.publicKey, domain)) {
+    transactions.push(await sendAndConfirmWithSigner(program.provider.connection, transaction, payer));
+  }
+  const { signers } = await program.account.collateralAdminSignatures.fetch(collateralSignatureAddress);
+  return { collateralSignatureAddress, transactions, signers, adminThreshold: collateralAccount.adminThreshold };
+}
+
+/**
+ * Inspects the CollateralAdminSignatures account of a withdrawal: who signed, who is missing and
+ * how far the admin threshold is. The accounts derived with the previous admin funds nonces are
+ * inspected as well, to flag signatures made stale by a nonce change.
+ * @param program - The Main program
+ * @param message - The withdraw message fields, without the admin funds nonce
+ * @param adminFundsNonce - The nonce to derive the account with. Defaults to the collateral one
+ * @returns The signature state at the given nonce and the stale accounts found
+ */
+export async function inspectAdminSignatures(
+  program: Program<Main>,
+  message: Omit<AdminWithdrawalMessage, "adminFundsNonce">,
+  adminFundsNonce?: number,
+): Promise<AdminSignatureInspection> {
+  const collateralAccount = await program.account.collateral.fetch(message.collateral);
+  const currentNonce = collateralAccount.adminFundsNonce;
+  const nonces = [adminFundsNonce ?? currentNonce];
+  if (adminFundsNonce === undefined) {
+    for (let nonce = currentNonce - 1; nonce >= 0 && nonce >= currentNonce - STALE_NONCE_SEARCH_RANGE; nonce--) {
+      nonces.push(nonce);
+    }
+  }
+
+  const addresses = nonces.map(nonce => getAdminSignaturesAddress({ ...message, adminFundsNonce: nonce }, program.programId));
+  const accounts = await program.account.collateralAdminSignatures.fetchMultiple(addresses);
+  const statuses = nonces.map((nonce, index): AdminSignatureStatus => {
+    const signers = accounts[index]?.signers ?? [];
+    const signed = collateralAccount.admins.filter(admin => signers.some(signer => signer.equals(admin)));
+    return {
+      address: addresses[index],
+      adminFundsNonce: nonce,
+      stale: nonce !== currentNonce,
+      exists: accounts[index] !== null,
+      isInProgress: accounts[index]?.isInProgress ?? false,
+      signed,
+      missing: collateralAccount.admins.filter(admin => !signers.some(signer => signer.equals(admin))),
+      formerAdmins: signers.filter(signer => !collateralAccount.admins.some(admin => admin.equals(signer))),
+      adminThreshold: collateralAccount.adminThreshold,
+      remaining: Math.max(collateralAccount.adminThreshold - signed.length, 0),
+    };
+  });
+
+  const [current, ...previous] = statuses;
+  return { current, stale: previous.filter(status => status.exists) };
+}
+
+/**
+ * Serializes an exported admin signature as JSON, with base58 keys and base64 bytes
+ * @param exported - The admin signature and the withdrawal it signs
+ * @returns The JSON object
+ */
+export function serializeAdminSignature(exported: ExportedAdminSignature) {
+  const { message, signature } = exported;
+  return {
+    collateral: message.collateral.toBase58(),
+    sender: message.sender.toBase58(),
+    receiver: message.receiver.toBase58(),
+    asset: message.asset.toBase58(),
+    amount: message.withdrawRequest.amountOfAsset.toString(),
+    expiresAt: message.withdrawRequest.signatureExpirationTime.toNumber(),
+    coordinatorSalt: Buffer.from(message.withdrawRequest.coordinatorSignatureSalt).toString("base64"),
+    adminFundsNonce: message.adminFundsNonce,
+    admin: signature.admin.toBase58(),
+    salt: Buffer.from(signature.salt).toString("base64"),
+    signature: signature.signature.toString("base64"),
+  };
+}
+
+/**
+ * Parses an exported admin signature
+ * @param value - The decoded JSON object
+ * @returns The admin signature and the withdrawal it signs
+ *
+ * @throws WithdrawalSignatureParseError naming the first invalid field
+ */
+export function parseAdminSignature(value: unknown): ExportedAdminSignature {
+  if (typeof value !== "object" || value === null) {
+    throw new WithdrawalSignatureParseError("admin signature", "expected a JSON object");
+  }
+  const fields = value as Record<string, unknown>;
+  return {
+    message: {
+      collateral: parsePublicKey("collateral", fields.collateral),
+      sender: parsePublicKey("sender", fields.sender),
+      receiver: parsePublicKey("receiver", fields.receiver),
+      asset: parsePublicKey("asset", fields.asset),
+      withdrawRequest: {
+        amountOfAsset: new BN(parseAmount("amount", fields.amount).toString()),
+        signatureExpirationTime: new BN(parseInteger("expiresAt", fields.expiresAt)),
+        coordinatorSignatureSalt: Array.from(parseBytes("coordinatorSalt", fields.coordinatorSalt, SALT_SIZE)),
+      },
+      adminFundsNonce: parseInteger("adminFundsNonce", fields.adminFundsNonce),
+    },
+    signature: {
+      admin: parsePublicKey("admin", fields.admin),
+      salt: Array.from(parseBytes("salt", fields.salt, SALT_SIZE)),
+      signature: parseBytes("signature", fields.signature, SIGNATURE_SIZE),
+    },
+  };
+}
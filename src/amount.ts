@@ -0,0 +1,113 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+
+import { fetchAssetMint, isNativeAsset } from "./tokenMint";
+
+/**
+ * The largest amount of a u64 token balance
+ */
+export const MAX_TOKEN_AMOUNT = (1n << 64n) - 1n;
+
+/**
+ * How the base units of an asset are shown: its number of decimals and its symbol, when known
+ */
+export type TokenUnit = {
+  decimals: number;
+  symbol?: string;
+}
+
+/**
+ * The unit of native SOL, counted in lamports
+ */
+export const NATIVE_UNIT: TokenUnit = { decimals: 9, symbol: "SOL" };
+
+/**
+ * The symbols of well-known mainnet mints. Mints don't carry their symbol, so the others have none.
+ */
+const KNOWN_SYMBOLS: { [mint: string]: string } = {
+  EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v: "USDC",
+  Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB: "USDT",
+  "2b1kV6DkPAnxd5ixfnxCpjxmKwqjjaYmCZfHsFu24GXo": "PYUSD",
+};
+
+/**
+ * Gets the symbol of a well-known mint
+ * @param mint - The mint
+ * @returns The symbol, or undefined when the mint is not a well-known one
+ */
+export function getTokenSymbol(mint: PublicKey): string | undefined {
+  return KNOWN_SYMBOLS[mint.toBase58()];
+}
+
+/**
+ * Error thrown when an amount is malformed, in the wrong unit, or cannot be represented exactly
+ * in base units
+ */
+export class AmountParseError extends Error {
+  constructor(readonly value: string, reason: string) {
+    super(`Invalid amount \`${value}\`: ${reason}`);
+    this.name = "AmountParseError";
+  }
+}
+
+/**
+ * Fetches the unit of an asset from its mint
+ * @param connection - The connection to the Solana network
+ * @param asset - The asset mint, or the default key for native SOL
+ * @returns The decimals of the mint and its symbol, when known
+ */
+export async function fetchTokenUnit(connection: Connection, asset: PublicKey): Promise<TokenUnit> {
+  if (isNativeAsset(asset)) {
+    return NATIVE_UNIT;
+  }
+  const { mint } = await fetchAssetMint(connection, asset);
+  return { decimals: mint.decimals, symbol: getTokenSymbol(asset) };
+}
+
+/**
+ * Formats an amount of base units in human units, e.g. `1.5 USDC` for 1500000 base units of a
+ * 6-decimal mint
+ * @param amount - The amount in base units
+ * @param unit - The unit of the asset
+ * @returns The formatted amount, followed by the symbol when known
+ */
+export function formatTokenAmount(amount: bigint, unit: TokenUnit): string {
+  const sign = amount < 0n ? "-" : "";
+  const digits = (amount < 0n ? -amount : amount).toString().padStart(unit.decimals + 1, "0");
+  const whole = digits.slice(0, digits.length - unit.decimals);
+  const fraction = digits.slice(digits.length - unit.decimals).replace(/0+$/, "");
+  const value = `${sign}${whole}${fraction ? `.${fraction}` : ""}`;
+  return unit.symbol ? `${value} ${unit.symbol}` : value;
+}
+
+/**
+ * Parses an amount given in human units followed by its unit, e.g. `1.5 USDC`, into base units.
+ * The unit is the symbol of the asset or, for mints without a known symbol, the mint address.
+ * @param value - The amount and its unit
+ * @param unit - The unit of the asset
+ * @param asset - The asset mint, which can be used as the unit
+ * @returns The amount in base units
+ *
+ * @throws AmountParseError if the unit does not match the asset, the amount has more decimals
+ * than the mint or does not fit in a u64
+ */
+export function parseTokenAmount(value: string, unit: TokenUnit, asset: PublicKey): bigint {
+  const match = /^(\d+)(?:\.(\d+))?\s+(\S+)$/.exec(value.trim());
+  if (!match) {
+    throw new AmountParseError(value, "expected a decimal amount followed by its unit, e.g. `1.5 USDC`");
+  }
+  const [, whole, fraction = "", symbol] = match;
+  const matchesSymbol = unit.symbol !== undefined && symbol.toUpperCase() === unit.symbol.toUpperCase();
+  if (!matchesSymbol && symbol !== asset.toBase58()) {
+    throw new AmountParseError(value, `the asset is ${unit.symbol ?? asset.toBase58()}, not ${symbol}`);
+  }
+
+  const significant = fraction.replace(/0+$/, "");
+  if (significant.length > unit.decimals) {
+    throw new AmountParseError(value, `the asset has ${unit.decimals} decimals, so the amount would lose precision`);
+  }
+  const amount = BigInt(whole + significant.padEnd(unit.decimals, "0"));
+  if (amount > MAX_TOKEN_AMOUNT) {
+    throw new AmountParseError(value, "the amount does not fit in a u64");
+  }
+  return amount;
+}
@@ -0,0 +1,93 @@
+export type ParsedArgs = {
+  command?: string;
+  positionals: string[];
+  options: Record<string, string | boolean>;
+}
+
+/**
+ * Parses command-line arguments into a command, positional arguments and `--name value` options.
+ *
+ * Options may be given as `--name value` or `--name=value`. Names listed in `booleanFlags` never
+ * consume the following argument and are set to `true` when present.
+ *
+ * @param argv - The arguments without the node executable and script path
+ * @param booleanFlags - The option names that do not take a value
+ * @returns The parsed arguments
+ */
+export function parseArgs(argv: string[], booleanFlags: string[] = []): ParsedArgs {
+  const positionals: string[] = [];
+  const options: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--") || arg === "--") {
+      positionals.push(arg);
+      continue;
+    }
+
+    const separator = arg.indexOf("=");
+    if (separator !== -1) {
+      options[arg.slice(2, separator)] = arg.slice(separator + 1);
+      continue;
+    }
+
+    const name = arg.slice(2);
+    const next = argv[i + 1];
+    if (booleanFlags.includes(name) || next === undefined || next.startsWith("--")) {
+      options[name] = true;
+    } else {
+      options[name] = next;
+      i++;
+    }
+  }
+
+  const [command, ...rest] = positionals;
+  return { command, positionals: rest, options };
+}
+
+/**
+ * Reads a string option, falling back to the given default
+ * @param args - The parsed arguments
+ * @param name - The option name without the leading dashes
+ * @param fallback - The value to return when the option is missing
+ * @returns The option value or the fallback
+ *
+ * @throws Error if the option is given without a value
+ */
+export function getOption(args: ParsedArgs, name: string, fallback?: string): string | undefined {
+  const value = args.options[name];
+  if (value === undefined) {
+    return fallback;
+  }
+  if (typeof value !== "string") {
+    throw new Error(`Option --${name} requires a value`);
+  }
+  return value;
+}
+
+/**
+ * Reads a mandatory string option
+ * @param args - The parsed arguments
+ * @param name - The option name without the leading dashes
+ * @param fallback - The value to use when the option is missing
+ * @returns The option value
+ *
+ * @throws Error if the option is missing and no fallback is available
+ */
+export function requireOption(args: ParsedArgs, name: string, fallback?: string): string {
+  const value = getOption(args, name, fallback);
+  if (!value) {
+    throw new Error(`Missing required option --${name}`);
+  }
+  return value;
+}
+
+/**
+ * Checks whether a boolean flag was given
+ * @param args - The parsed arguments
+ * @param name - The flag name without the leading dashes
+ * @returns True if the flag is present
+ */
+export function hasFlag(args: ParsedArgs, name: string): boolean {
+  return args.options[name] === true || args.options[name] === "true";
+}
@@ -0,0 +1,41 @@
+import { ParsedArgs } from "./args";
+
+/**
+ * A CLI subcommand
+ */
+export type Command = {
+  name: string;
+  description: string;
+  usage: string;
+  run: (args: ParsedArgs) => Promise<void>;
+}
+
+/**
+ * Formats the usage text of a command
+ * @param synopsis - The command line synopsis
+ * @param options - The option flags and their descriptions
+ * @returns The usage text
+ */
+export function formatUsage(synopsis: string, options: [string, string][]): string {
+  const width = Math.max(...options.map(([flag]) => flag.length)) + 2;
+  return [
+    synopsis,
+    "",
+    ...options.map(([flag, description]) => `  ${flag.padEnd(width)}${description}`.trimEnd()),
+  ].join("\n");
+}
+
+/**
+ * The options shared by the commands that read a withdrawal signature API response
+ */
+export const WITHDRAWAL_INPUT_OPTIONS: [string, string][] = [
+  ["--input <file>", "The /withdrawal-signature API response (`-` for stdin)"],
+  ["--collateral <address>", "Alternatively, each response parameter as a flag"],
+  ["--asset <address>", ""],
+  ["--amount <amount>", "In base units, or in human units with the asset unit, e.g. \"1.5 USDC\""],
+  ["--recipient <address>", ""],
+  ["--expires-at <timestamp>", ""],
+  ["--salt <base64>", ""],
+  ["--signature <base64>", ""],
+  ["--executor <address>", "Optionally, the executor that produced the signature"],
+];
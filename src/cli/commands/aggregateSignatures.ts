@@ -0,0 +1,54 @@
+import { assertSignatureNotExpired } from "../../expiry";
+import { getAdminSignaturesAddress, submitAdminSignatures } from "../../adminSignatures";
+import { Command, formatUsage } from "../command";
+import { NETWORK_OPTIONS, SIGNER_OPTIONS, getExpiryMarginSeconds, loadProgram, loadSigner, loadSigningDomain } from "../context";
+import { readAdminSignatures } from "../input";
+
+export const aggregateSignaturesCommand: Command = {
+  name: "aggregate-signatures",
+  description: "Submit the admin signatures exported for a withdrawal in as few transactions as fit them",
+  usage: formatUsage("aggregate-signatures --program <address> --signatures <file,...>", [
+    ...NETWORK_OPTIONS,
+    ["--signatures <file,...>", "The admin signature files written by export-signature"],
+    ["--expiry-margin <seconds>", "Abort if the signature expires within this margin. Defaults to 60"],
+    ...SIGNER_OPTIONS,
+  ]),
+  async run(args) {
+    const signatures = readAdminSignatures(args, "signatures");
+    if (signatures.length === 0) {
+      throw new Error("Missing required option --signatures");
+    }
+
+    const signer = await loadSigner(args);
+    const program = loadProgram(args, signer);
+
+    const [{ message }] = signatures;
+    const collateralSignatureAddress = getAdminSignaturesAddress(message, program.programId);
+    for (const { message: other, signature } of signatures) {
+      if (!getAdminSignaturesAddress(other, program.programId).equals(collateralSignatureAddress)) {
+        throw new Error(`The signature of ${signature.admin.toBase58()} is for a different withdrawal`);
+      }
+    }
+    await assertSignatureNotExpired(
+      program.provider.connection,
+      message.withdrawRequest.signatureExpirationTime.toNumber(),
+      getExpiryMarginSeconds(args)
+    );
+
+    const submission = await submitAdminSignatures(
+      program,
+      message,
+      signatures.map(({ signature }) => signature),
+      signer,
+      loadSigningDomain(args)
+    );
+    for (const transaction of submission.transactions) {
+      console.log("Transaction", transaction);
+    }
+    console.log("Collateral admin signatures account", submission.collateralSignatureAddress.toBase58());
+    console.log(`Signed by ${submission.signers.length} of ${submission.adminThreshold} required admins`);
+    if (submission.signers.length >= submission.adminThreshold) {
+      console.log(`Threshold met, ${message.sender.toBase58()} can now run \`submit\``);
+    }
+  },
+};
@@ -0,0 +1,39 @@
+import { PublicKey } from "@solana/web3.js";
+
+import { getCollateralBalances } from "../../collateralBalances";
+import { requireOption } from "../args";
+import { Command, formatUsage } from "../command";
+import { NETWORK_OPTIONS, loadProgram } from "../context";
+
+export const balancesCommand: Command = {
+  name: "balances",
+  description: "List the assets held by a collateral, with their USD value when priced",
+  usage: formatUsage("balances --collateral <address>", [
+    ...NETWORK_OPTIONS,
+    ["--collateral <address>", "The collateral account"],
+  ]),
+  async run(args) {
+    const program = loadProgram(args);
+    const balances = await getCollateralBalances(program, new PublicKey(requireOption(args, "collateral")));
+    if (balances.length === 0) {
+      console.log("The collateral holds no assets");
+      return;
+    }
+
+    for (const balance of balances) {
+      console.log(balance.humanAmount === null
+        ? `${balance.asset.toBase58()}: ${balance.amount} base units (mint account unreadable, decimals unknown)`
+        : `${balance.asset.toBase58()}: ${balance.humanAmount} (${balance.amount} base units)`);
+      console.log(`  ${balance.tokenAccount ? `Token account ${balance.tokenAccount.toBase58()}` : "Native SOL, rent-exempt reserve excluded"}`);
+      if (!balance.supportedAsset) {
+        console.log("  Not a supported asset of the coordinator");
+      } else if (balance.decimals === null) {
+        console.log("  Value: unknown without the mint decimals");
+      } else if (balance.price) {
+        console.log(`  Value: ${balance.usdValue}${balance.price.stale ? ` (stale price, published at ${new Date(balance.price.publishTime * 1000).toISOString()})` : ""}`);
+      } else {
+        console.log("  Value: no oracle price");
+      }
+    }
+  },
+};
@@ -0,0 +1,64 @@
+import { BN } from "@coral-xyz/anchor";
+import { Keypair } from "@solana/web3.js";
+
+import { Collateral } from "../../collateral";
+import { Coordinator } from "../../coordinator";
+import { HashUtils, KeccakBackend, cryptoJsKeccakBackend, nobleKeccakBackend } from "../../hashUtils";
+import { getOption } from "../args";
+import { Command, formatUsage } from "../command";
+
+const BACKENDS: [string, KeccakBackend][] = [
+  ["crypto-js", cryptoJsKeccakBackend],
+  ["@noble/hashes", nobleKeccakBackend],
+];
+
+/**
+ * Hashes the collateral and coordinator messages of the given number of withdrawals
+ * @param count - The number of withdrawals
+ * @returns The elapsed time in milliseconds
+ */
+function hashWithdrawals(count: number): number {
+  const [collateral, coordinator, sender, receiver, asset] = Array.from({ length: 5 }, () => Keypair.generate().publicKey);
+  const salt = Array.from({ length: 32 }, (_, i) => i);
+  const request = {
+    amountOfAsset: new BN(1_500_000),
+    signatureExpirationTime: new BN(1_767_225_600),
+    coordinatorSignatureSalt: salt,
+  };
+
+  const start = process.hrtime.bigint();
+  for (let nonce = 0; nonce < count; nonce++) {
+    Collateral.getWithdrawMessage(collateral, sender, receiver, asset, request, salt, nonce);
+    Coordinator.getWithdrawMessage(collateral, coordinator, sender, receiver, asset, request, nonce);
+  }
+  return Number(process.hrtime.bigint() - start) / 1e6;
+}
+
+export const benchmarkHashingCommand: Command = {
+  name: "benchmark-hashing",
+  description: "Measure the withdrawal message hashing throughput of each keccak backend",
+  usage: formatUsage("benchmark-hashing [--count <count>]", [
+    ["--count <count>", "The number of withdrawals to hash with each backend. Defaults to 5000"],
+  ]),
+  async run(args) {
+    const count = Number(getOption(args, "count", "5000"));
+    if (!Number.isSafeInteger(count) || count <= 0) {
+      throw new Error(`Invalid --count: expected a positive integer, got ${getOption(args, "count")}`);
+    }
+
+    const backend = HashUtils.getKeccakBackend();
+    const timings: number[] = [];
+    try {
+      for (const [name, candidate] of BACKENDS) {
+        HashUtils.setKeccakBackend(candidate);
+        const elapsed = hashWithdrawals(count);
+        timings.push(elapsed);
+        const rate = Math.round(count / (elapsed / 1000));
+        console.log(`${name.padEnd(16)}${elapsed.toFixed(0).padStart(8)} ms  ${rate} withdrawals/s`);
+      }
+    } finally {
+      HashUtils.setKeccakBackend(backend);
+    }
+    console.log(`\n@noble/hashes is ${(timings[0] / timings[1]).toFixed(1)}x faster than crypto-js`);
+  },
+};
@@ -0,0 +1,29 @@
+import { existsSync, writeFileSync } from "fs";
+
+import { encryptKeystore } from "../../signers";
+import { requireOption } from "../args";
+import { Command, formatUsage } from "../command";
+import { loadKeypair, loadPassphrase } from "../context";
+
+export const createKeystoreCommand: Command = {
+  name: "create-keystore",
+  description: "Encrypt a keypair file or the MNEMONIC signer into a keystore file",
+  usage: formatUsage("create-keystore --output <file> [--keypair <file>]", [
+    ["--output <file>", "The keystore file to create"],
+    ["--keypair <file>", "The keypair to encrypt. Defaults to the MNEMONIC signer"],
+    ["--derivation-path <path>", "The MNEMONIC derivation path, or `default` / `legacy`"],
+    ["--account-index <index>", "The account index used with MNEMONIC. Defaults to 0"],
+    ["--passphrase-file <file>", "The passphrase file. Defaults to KEYSTORE_PASSPHRASE"],
+  ]),
+  async run(args) {
+    const output = requireOption(args, "output");
+    if (existsSync(output)) {
+      throw new Error(`Refusing to overwrite existing file ${output}`);
+    }
+
+    const keypair = loadKeypair(args);
+    const keystore = encryptKeystore(keypair, loadPassphrase(args));
+    writeFileSync(output, JSON.stringify(keystore, null, 2), { mode: 0o600 });
+    console.log(`Keystore for ${keystore.publicKey} written to ${output}`);
+  },
+};
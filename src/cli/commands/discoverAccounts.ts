@@ -0,0 +1,48 @@
+import { PublicKey } from "@solana/web3.js";
+
+import { DERIVATION_PATHS, deriveMnemonicAccounts } from "../../keypair";
+import { getOption, requireOption } from "../args";
+import { Command, formatUsage } from "../command";
+import { NETWORK_OPTIONS, getMnemonicOptions, loadProgram } from "../context";
+
+export const discoverAccountsCommand: Command = {
+  name: "discover-accounts",
+  description: "Derive the first MNEMONIC accounts and show which are collateral admins",
+  usage: formatUsage("discover-accounts --collateral <address> [--count <count>]", [
+    ...NETWORK_OPTIONS,
+    ["--collateral <address>", "The collateral account whose admins are checked"],
+    ["--count <count>", "The number of account indices to derive. Defaults to 10"],
+    ["--derivation-path <path>", "Only derive with this path. Defaults to every known path"],
+  ]),
+  async run(args) {
+    const mnemonic = process.env.MNEMONIC;
+    if (!mnemonic || !mnemonic.includes(" ")) {
+      throw new Error("discover-accounts requires a mnemonic phrase in MNEMONIC");
+    }
+    const count = Number(getOption(args, "count", "10"));
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error(`Invalid --count: ${getOption(args, "count")}`);
+    }
+
+    const { derivationPath, passphrase } = getMnemonicOptions(args);
+    const program = loadProgram(args);
+    const collateral = await program.account.collateral.fetch(new PublicKey(requireOption(args, "collateral")));
+
+    const accounts = deriveMnemonicAccounts(
+      mnemonic,
+      count,
+      derivationPath ? [derivationPath] : [...DERIVATION_PATHS.keys()],
+      passphrase
+    );
+    for (const account of accounts) {
+      const isAdmin = collateral.admins.some(admin => admin.equals(account.publicKey));
+      console.log(`${account.derivationPath.padEnd(24)}${account.publicKey.toBase58().padEnd(46)}${isAdmin ? "admin" : ""}`);
+    }
+
+    const admins = accounts.filter(account => collateral.admins.some(admin => admin.equals(account.publicKey)));
+    console.log(`\n${admins.length} of ${collateral.admins.length} admins found (threshold ${collateral.adminThreshold})`);
+    if (admins.length > 0) {
+      console.log(`Sign with --derivation-path "${admins[0].derivationPath}"`);
+    }
+  },
+};
@@ -0,0 +1,49 @@
+import { existsSync, writeFileSync } from "fs";
+import { PublicKey } from "@solana/web3.js";
+
+import { buildWithdrawRequest } from "../../withdraw";
+import { AdminWithdrawalMessage, createDetachedAdminSignature, serializeAdminSignature } from "../../adminSignatures";
+import { getOption, requireOption } from "../args";
+import { Command, WITHDRAWAL_INPUT_OPTIONS, formatUsage } from "../command";
+import { NETWORK_OPTIONS, SIGNER_OPTIONS, loadProgram, loadSigner, loadSigningDomain } from "../context";
+import { readWithdrawalSignature } from "../input";
+
+export const exportSignatureCommand: Command = {
+  name: "export-signature",
+  description: "Sign a withdrawal as an admin and export the signature for an aggregator",
+  usage: formatUsage("export-signature --program <address> --output <file> [--sender <address>] [input]", [
+    ...NETWORK_OPTIONS,
+    ["--output <file>", "The file to write the admin signature to"],
+    ["--sender <address>", "The admin executing the withdrawal. Defaults to the signer"],
+    ...SIGNER_OPTIONS,
+    ...WITHDRAWAL_INPUT_OPTIONS,
+  ]),
+  async run(args) {
+    const output = requireOption(args, "output");
+    if (existsSync(output)) {
+      throw new Error(`Refusing to overwrite existing file ${output}`);
+    }
+
+    const signer = await loadSigner(args);
+    const program = loadProgram(args);
+    const withdrawal = await readWithdrawalSignature(args, program.provider.connection);
+
+    const collateralAccount = await program.account.collateral.fetch(withdrawal.collateral);
+    if (!collateralAccount.admins.some(admin => admin.equals(signer.publicKey))) {
+      throw new Error(`${signer.publicKey.toBase58()} is not an admin of collateral ${withdrawal.collateral.toBase58()}`);
+    }
+
+    const sender = getOption(args, "sender");
+    const message: AdminWithdrawalMessage = {
+      collateral: withdrawal.collateral,
+      sender: sender ? new PublicKey(sender) : signer.publicKey,
+      receiver: withdrawal.recipient,
+      asset: withdrawal.asset,
+      withdrawRequest: buildWithdrawRequest(withdrawal.expiresAt, withdrawal.amount, withdrawal.salt),
+      adminFundsNonce: collateralAccount.adminFundsNonce,
+    };
+    const signature = await createDetachedAdminSignature(signer, message, loadSigningDomain(args));
+    writeFileSync(output, JSON.stringify(serializeAdminSignature({ message, signature }), null, 2));
+    console.log(`Admin signature written to ${output}`);
+  },
+};
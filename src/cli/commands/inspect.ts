@@ -0,0 +1,95 @@
+import { PublicKey } from "@solana/web3.js";
+
+import { buildWithdrawRequest } from "../../withdraw";
+import { fetchTokenUnit, formatTokenAmount } from "../../amount";
+import { UnknownExecutorError, verifyCoordinatorSignature } from "../../verification";
+import { getOption } from "../args";
+import { Command, WITHDRAWAL_INPUT_OPTIONS, formatUsage } from "../command";
+import { loadNetwork, loadProgram, loadSigningDomain } from "../context";
+import { readWithdrawalSignature } from "../input";
+
+export const inspectCommand: Command = {
+  name: "inspect",
+  description: "Validate and print a withdrawal signature API response",
+  usage: formatUsage("inspect [--network <name>] [--program <address>] [input]", [
+    ["--network <name>", "When given, also print the on-chain state and verify the signature"],
+    ["--program <address>", "Likewise, with the cluster read from SOLANA_RPC_URL"],
+    ["--sender <address>", "The admin sending the withdrawal. Defaults to trying every admin"],
+    ...WITHDRAWAL_INPUT_OPTIONS,
+  ]),
+  async run(args) {
+    const network = loadNetwork(args);
+    const program = network || getOption(args, "program", process.env.PROGRAM_ADDRESS) ? loadProgram(args) : undefined;
+    const withdrawal = await readWithdrawalSignature(args, program?.provider.connection);
+    console.log("Collateral:", withdrawal.collateral.toBase58());
+    console.log("Asset:", withdrawal.asset.toBase58());
+    if (program) {
+      const unit = await fetchTokenUnit(program.provider.connection, withdrawal.asset);
+      console.log("Amount:", formatTokenAmount(withdrawal.amount, unit), `(${withdrawal.amount} base units)`);
+    } else {
+      console.log("Amount:", withdrawal.amount.toString(), "base units");
+    }
+    console.log("Recipient:", withdrawal.recipient.toBase58());
+    console.log("Expires at:", new Date(withdrawal.expiresAt * 1000).toISOString());
+    console.log("Salt:", withdrawal.salt.toString("base64"));
+    console.log("Signature:", withdrawal.signature.toString("base64"));
+    if (withdrawal.executor) {
+      console.log("Executor:", withdrawal.executor.toBase58());
+    }
+
+    if (!program) {
+      return;
+    }
+    const collateral = await program.account.collateral.fetch(withdrawal.collateral);
+    console.log("Collateral name:", collateral.name);
+    console.log("Coordinator:", collateral.coordinator.toBase58());
+    if (network && network.coordinators.length > 0 && !network.coordinators.some(key => key.equals(collateral.coordinator))) {
+      console.warn(`WARNING: the coordinator is not one of the known coordinators of network ${network.name}`);
+    }
+    console.log("Admins:", collateral.admins.map(admin => admin.toBase58()).join(", "));
+    console.log("Admin threshold:", collateral.adminThreshold);
+    console.log("Admin funds nonce:", collateral.adminFundsNonce);
+
+    // Verify the coordinator signature for the given sender, or find the admin it was issued for
+    const coordinator = await program.account.coordinator.fetch(collateral.coordinator);
+    if (withdrawal.executor && !coordinator.executors.some(executor => executor.equals(withdrawal.executor!))) {
+      throw new UnknownExecutorError(withdrawal.executor, collateral.coordinator);
+    }
+    const executors = withdrawal.executor ? [withdrawal.executor] : coordinator.executors;
+    const sender = getOption(args, "sender");
+    const senders = sender ? [new PublicKey(sender)] : collateral.admins;
+    const fields = {
+      collateral: withdrawal.collateral,
+      coordinator: collateral.coordinator,
+      receiver: withdrawal.recipient,
+      asset: withdrawal.asset,
+      withdrawRequest: buildWithdrawRequest(withdrawal.expiresAt, withdrawal.amount, withdrawal.salt),
+      adminFundsNonce: collateral.adminFundsNonce,
+    };
+    const domain = loadSigningDomain(args);
+    for (const candidate of senders) {
+      const verification = verifyCoordinatorSignature(
+        { ...fields, sender: candidate },
+        withdrawal.signature,
+        executors,
+        [],
+        domain
+      );
+      if (verification.valid) {
+        console.log(`Coordinator signature: valid for sender ${candidate.toBase58()}, signed by executor ${verification.executor!.toBase58()}`);
+        return;
+      }
+    }
+
+    const diagnosis = verifyCoordinatorSignature(
+      { ...fields, sender: senders[0] ?? PublicKey.default },
+      withdrawal.signature,
+      executors,
+      collateral.admins,
+      domain
+    ).diagnosis;
+    console.log("Coordinator signature: INVALID");
+    diagnosis.forEach(cause => console.log(`- ${cause}`));
+    process.exitCode = 1;
+  },
+};
@@ -0,0 +1,72 @@
+import { PublicKey } from "@solana/web3.js";
+
+import { buildWithdrawRequest } from "../../withdraw";
+import { AdminSignatureStatus, inspectAdminSignatures } from "../../adminSignatures";
+import { getOption, requireOption } from "../args";
+import { Command, WITHDRAWAL_INPUT_OPTIONS, formatUsage } from "../command";
+import { NETWORK_OPTIONS, loadProgram } from "../context";
+import { readWithdrawalSignature } from "../input";
+
+/**
+ * Formats the signature state of a CollateralAdminSignatures account
+ * @param status - The signature state
+ * @returns The formatted state
+ */
+function formatStatus(status: AdminSignatureStatus): string {
+  const lines = [`${status.address.toBase58()} (adminFundsNonce ${status.adminFundsNonce})`];
+  if (status.stale) {
+    lines.push("  STALE: derived with an old adminFundsNonce, its signatures can no longer be used");
+  }
+  if (!status.exists) {
+    lines.push("  Not created yet, no admin has signed");
+  } else {
+    lines.push(`  In progress: ${status.isInProgress ? "yes" : "no"}`);
+  }
+  lines.push(`  Signed (${status.signed.length}):`, ...status.signed.map(admin => `    ${admin.toBase58()}`));
+  lines.push(`  Missing (${status.missing.length}):`, ...status.missing.map(admin => `    ${admin.toBase58()}`));
+  if (status.formerAdmins.length > 0) {
+    lines.push(`  Signed by former admins (${status.formerAdmins.length}):`, ...status.formerAdmins.map(admin => `    ${admin.toBase58()}`));
+  }
+  lines.push(status.remaining === 0
+    ? `  Threshold: ${status.signed.length} of ${status.adminThreshold}, met`
+    : `  Threshold: ${status.signed.length} of ${status.adminThreshold}, ${status.remaining} more needed`);
+  return lines.join("\n");
+}
+
+export const inspectSignaturesCommand: Command = {
+  name: "inspect-signatures",
+  description: "Show which admins signed a withdrawal and how far the threshold is",
+  usage: formatUsage("inspect-signatures --program <address> --sender <address> [input]", [
+    ...NETWORK_OPTIONS,
+    ["--sender <address>", "The admin executing the withdrawal"],
+    ["--nonce <nonce>", "The adminFundsNonce to derive the account with. Defaults to the current one"],
+    ...WITHDRAWAL_INPUT_OPTIONS,
+  ]),
+  async run(args) {
+    const sender = new PublicKey(requireOption(args, "sender"));
+    const nonce = getOption(args, "nonce");
+    if (nonce !== undefined && !/^\d+$/.test(nonce)) {
+      throw new Error(`Invalid --nonce: ${nonce}`);
+    }
+    const program = loadProgram(args);
+    const withdrawal = await readWithdrawalSignature(args, program.provider.connection);
+
+    const inspection = await inspectAdminSignatures(
+      program,
+      {
+        collateral: withdrawal.collateral,
+        sender,
+        receiver: withdrawal.recipient,
+        asset: withdrawal.asset,
+        withdrawRequest: buildWithdrawRequest(withdrawal.expiresAt, withdrawal.amount, withdrawal.salt),
+      },
+      nonce === undefined ? undefined : Number(nonce)
+    );
+
+    console.log(formatStatus(inspection.current));
+    if (inspection.stale.length > 0) {
+      console.log("\nStale accounts of the same withdrawal at previous nonces:");
+      console.log(inspection.stale.map(formatStatus).join("\n\n"));
+    }
+  },
+};
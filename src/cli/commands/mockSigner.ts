@@ -0,0 +1,22 @@
+import { startMockRemoteSigner } from "../../signers";
+import { getOption } from "../args";
+import { Command, formatUsage } from "../command";
+import { loadKeypair } from "../context";
+
+export const mockSignerCommand: Command = {
+  name: "mock-signer",
+  description: "Serve a local keypair over the remote signer protocol for development",
+  usage: formatUsage("mock-signer [--port <port>] [--keypair <file>]", [
+    ["--port <port>", "The port to listen on. Defaults to 8787"],
+    ["--keypair <file>", "The keypair to sign with. Defaults to the MNEMONIC signer"],
+  ]),
+  async run(args) {
+    const keypair = loadKeypair(args);
+    const server = await startMockRemoteSigner(keypair, Number(getOption(args, "port", "8787")));
+    console.log(`Mock remote signer for ${keypair.publicKey.toBase58()} listening on ${server.url}`);
+
+    // Serve until the process is interrupted
+    await new Promise<void>(resolve => process.once("SIGINT", () => resolve()));
+    await server.close();
+  },
+};
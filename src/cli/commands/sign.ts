@@ -0,0 +1,33 @@
+import { signWithdrawal } from "../../withdraw";
+import { Command, WITHDRAWAL_INPUT_OPTIONS, formatUsage } from "../command";
+import { NETWORK_OPTIONS, SIGNER_OPTIONS, getExpiryMarginSeconds, loadProgram, loadSigner, loadSigningDomain } from "../context";
+import { readWithdrawalSignature } from "../input";
+
+export const signCommand: Command = {
+  name: "sign",
+  description: "Submit the admin signature for a withdrawal without executing it",
+  usage: formatUsage("sign --program <address> [input]", [
+    ...NETWORK_OPTIONS,
+    ["--expiry-margin <seconds>", "Abort if the signature expires within this margin. Defaults to 60"],
+    ...SIGNER_OPTIONS,
+    ...WITHDRAWAL_INPUT_OPTIONS,
+  ]),
+  async run(args) {
+    const signer = await loadSigner(args);
+    const program = loadProgram(args, signer);
+    const withdrawal = await readWithdrawalSignature(args, program.provider.connection);
+
+    const signaturesAddress = await signWithdrawal(
+      program,
+      withdrawal.collateral,
+      signer,
+      withdrawal.recipient,
+      withdrawal.asset,
+      withdrawal.expiresAt,
+      withdrawal.amount,
+      withdrawal.salt,
+      { expiryMarginSeconds: getExpiryMarginSeconds(args), signingDomain: loadSigningDomain(args) }
+    );
+    console.log("Collateral admin signatures account", signaturesAddress.toBase58());
+  },
+};
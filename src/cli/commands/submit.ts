@@ -0,0 +1,44 @@
+import { PublicKey } from "@solana/web3.js";
+
+import { submitWithdrawal } from "../../withdraw";
+import { getOption } from "../args";
+import { Command, WITHDRAWAL_INPUT_OPTIONS, formatUsage } from "../command";
+import { NETWORK_OPTIONS, SIGNER_OPTIONS, getExpiryMarginSeconds, loadProgram, loadSigner, loadSigningDomain } from "../context";
+import { readWithdrawalSignature } from "../input";
+
+export const submitCommand: Command = {
+  name: "submit",
+  description: "Execute a withdrawal whose admin signatures were already submitted",
+  usage: formatUsage("submit --program <address> [--deposit-address <address>] [input]", [
+    ...NETWORK_OPTIONS,
+    ["--deposit-address <address>", "Checked against the deposit address derived from the collateral"],
+    ["--expiry-margin <seconds>", "Abort if the signature expires within this margin. Defaults to 60"],
+    ...SIGNER_OPTIONS,
+    ...WITHDRAWAL_INPUT_OPTIONS,
+  ]),
+  async run(args) {
+    const depositAddress = getOption(args, "deposit-address");
+    const signer = await loadSigner(args);
+    const program = loadProgram(args, signer);
+    const withdrawal = await readWithdrawalSignature(args, program.provider.connection);
+
+    const transaction = await submitWithdrawal(
+      program,
+      withdrawal.collateral,
+      depositAddress ? new PublicKey(depositAddress) : undefined,
+      signer,
+      withdrawal.recipient,
+      withdrawal.asset,
+      withdrawal.expiresAt,
+      withdrawal.amount,
+      withdrawal.salt,
+      withdrawal.signature,
+      {
+        executor: withdrawal.executor,
+        expiryMarginSeconds: getExpiryMarginSeconds(args),
+        signingDomain: loadSigningDomain(args),
+      }
+    );
+    console.log("Transaction", transaction);
+  },
+};
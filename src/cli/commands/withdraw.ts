@@ -0,0 +1,71 @@
+import { PublicKey } from "@solana/web3.js";
+
+import { executeWithdrawal } from "../../withdraw";
+import { formatSimulationReport } from "../../simulation";
+import { getOption, hasFlag } from "../args";
+import { Command, WITHDRAWAL_INPUT_OPTIONS, formatUsage } from "../command";
+import { NETWORK_OPTIONS, SIGNER_OPTIONS, getExpiryMarginSeconds, loadProgram, loadSigner, loadSigningDomain } from "../context";
+import { readAdminSignatures, readWithdrawalSignature } from "../input";
+
+export const withdrawCommand: Command = {
+  name: "withdraw",
+  description: "Submit the admin signature and execute the withdrawal",
+  usage: formatUsage("withdraw --program <address> [--deposit-address <address>] [input]", [
+    ...NETWORK_OPTIONS,
+    ["--deposit-address <address>", "Checked against the deposit address derived from the collateral"],
+    ["--dry-run", "Simulate the transactions without sending anything"],
+    ["--expiry-margin <seconds>", "Abort if the signature expires within this margin. Defaults to 60"],
+    ["--admin-signatures <file,...>", "Signatures exported by other admins, submitted along"],
+    ...SIGNER_OPTIONS,
+    ...WITHDRAWAL_INPUT_OPTIONS,
+  ]),
+  async run(args) {
+    const depositAddress = getOption(args, "deposit-address");
+    const signer = await loadSigner(args);
+    const program = loadProgram(args, signer);
+    const withdrawal = await readWithdrawalSignature(args, program.provider.connection);
+
+    const result = await executeWithdrawal(
+      program,
+      withdrawal.collateral,
+      depositAddress ? new PublicKey(depositAddress) : undefined,
+      signer,
+      withdrawal.recipient,
+      withdrawal.asset,
+      withdrawal.expiresAt,
+      withdrawal.amount,
+      withdrawal.salt,
+      withdrawal.signature,
+      {
+        dryRun: hasFlag(args, "dry-run"),
+        executor: withdrawal.executor,
+        expiryMarginSeconds: getExpiryMarginSeconds(args),
+        adminSignatures: readAdminSignatures(args, "admin-signatures").map(({ signature }) => signature),
+        signingDomain: loadSigningDomain(args),
+      }
+    );
+
+    if (result.status === "expired") {
+      const stage = result.stage === "signature" ? "before the admin signature was submitted" : "before the withdrawal was sent";
+      console.error(`The coordinator signature expires at ${result.expiresAt} (cluster time ${result.clusterTime}), aborted ${stage}.`);
+      console.error("Expired, request a new signature.");
+      process.exitCode = 1;
+      return;
+    }
+
+    if (result.status === "simulated") {
+      console.log(result.simulations.map(formatSimulationReport).join("\n\n"));
+      if (result.simulations.some(simulation => !simulation.success)) {
+        process.exitCode = 1;
+      }
+      return;
+    }
+    if (result.status === "pending") {
+      console.log("Collateral admin signatures account", result.collateralSignatureAddress.toBase58());
+      console.log(`Signed by ${result.signers.length} of ${result.adminThreshold} required admins.`);
+      console.log("Collect the missing signatures with export-signature and aggregate-signatures, then run submit.");
+      return;
+    }
+    console.log("Transaction", result.transaction);
+  },
+};
@@ -0,0 +1,157 @@
+import { readFileSync } from "fs";
+import { Program } from "@coral-xyz/anchor";
+import { Keypair } from "@solana/web3.js";
+
+import { Main } from "../types/main";
+import { getNetworkProgram, getProgram } from "../program";
+import { NetworkProfile, loadNetworkProfile } from "../networks";
+import { DEFAULT_SIGNING_DOMAIN, SigningDomain } from "../signingDomain";
+import { MnemonicOptions, createKeypairFromInput, readKeypairFile } from "../keypair";
+import { KeypairSigner, RemoteSigner, SignerProvider, loadKeystoreSigner } from "../signers";
+import { ParsedArgs, getOption, requireOption } from "./args";
+
+/**
+ * The options shared by the commands that need a signer
+ */
+export const SIGNER_OPTIONS: [string, string][] = [
+  ["--keypair <file>", "Sign with a Solana CLI keypair file"],
+  ["--keystore <file>", "Sign with an encrypted keystore (passphrase in KEYSTORE_PASSPHRASE)"],
+  ["--passphrase-file <file>", "Read the keystore passphrase from a file instead"],
+  ["--remote-signer <url>", "Sign with a remote signer (token in REMOTE_SIGNER_TOKEN)"],
+  ["--derivation-path <path>", "The MNEMONIC derivation path, or `default` / `legacy`"],
+  ["--account-index <index>", "The account index used with MNEMONIC. Defaults to 0"],
+];
+
+/**
+ * The options shared by the commands that talk to the Rain program
+ */
+export const NETWORK_OPTIONS: [string, string][] = [
+  ["--network <name>", "The network profile from networks.json (or NETWORK)"],
+  ["--program <address>", "The Rain program address (or PROGRAM_ADDRESS). Defaults to the profile one"],
+];
+
+/**
+ * Reads the mnemonic derivation options from the command-line arguments and the optional BIP39
+ * passphrase from the MNEMONIC_PASSPHRASE environment variable
+ * @param args - The parsed command-line arguments
+ * @returns The mnemonic derivation options
+ */
+export function getMnemonicOptions(args: ParsedArgs): MnemonicOptions {
+  const accountIndex = getOption(args, "account-index");
+  return {
+    derivationPath: getOption(args, "derivation-path"),
+    accountIndex: accountIndex === undefined ? undefined : Number(accountIndex),
+    passphrase: process.env.MNEMONIC_PASSPHRASE,
+  };
+}
+
+/**
+ * Reads the `--expiry-margin` option, the number of seconds the coordinator signature must remain
+ * valid for before a transaction relying on it is sent
+ * @param args - The parsed command-line arguments
+ * @returns The safety margin in seconds, or undefined to use the default one
+ *
+ * @throws Error if the margin is not a non-negative integer
+ */
+export function getExpiryMarginSeconds(args: ParsedArgs): number | undefined {
+  const margin = getOption(args, "expiry-margin");
+  if (margin === undefined) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(margin)) {
+    throw new Error(`Invalid --expiry-margin: expected a number of seconds, got ${margin}`);
+  }
+  return Number(margin);
+}
+
+/**
+ * Loads a local keypair from the `--keypair` file or the MNEMONIC environment variable, which
+ * holds either a mnemonic phrase or a base58-encoded secret key
+ * @param args - The parsed command-line arguments
+ * @returns The keypair
+ */
+export function loadKeypair(args: ParsedArgs): Keypair {
+  const keypairFile = getOption(args, "keypair");
+  if (keypairFile) {
+    return readKeypairFile(keypairFile);
+  }
+
+  const mnemonicOrSecretKey = process.env.MNEMONIC;
+  if (!mnemonicOrSecretKey) {
+    throw new Error("No signer provided. Use --keypair, --keystore, --remote-signer or set MNEMONIC");
+  }
+  return createKeypairFromInput(mnemonicOrSecretKey, getMnemonicOptions(args));
+}
+
+/**
+ * Reads the keystore passphrase from the `--passphrase-file` or the KEYSTORE_PASSPHRASE
+ * environment variable
+ * @param args - The parsed command-line arguments
+ * @returns The passphrase
+ */
+export function loadPassphrase(args: ParsedArgs): string {
+  const passphraseFile = getOption(args, "passphrase-file");
+  const passphrase = passphraseFile
+    ? readFileSync(passphraseFile, "utf-8").replace(/\r?\n$/, "")
+    : process.env.KEYSTORE_PASSPHRASE;
+  if (!passphrase) {
+    throw new Error("No keystore passphrase provided. Use --passphrase-file or set KEYSTORE_PASSPHRASE");
+  }
+  return passphrase;
+}
+
+/**
+ * Loads the signer selected by the command-line arguments. Only the public key is ever printed.
+ * @param args - The parsed command-line arguments
+ * @returns The signer
+ */
+export async function loadSigner(args: ParsedArgs): Promise<SignerProvider> {
+  let signer: SignerProvider;
+  const keystore = getOption(args, "keystore");
+  const remoteSigner = getOption(args, "remote-signer");
+  if (keystore) {
+    signer = loadKeystoreSigner(keystore, loadPassphrase(args));
+  } else if (remoteSigner) {
+    signer = await RemoteSigner.connect(remoteSigner, process.env.REMOTE_SIGNER_TOKEN);
+  } else {
+    signer = new KeypairSigner(loadKeypair(args));
+  }
+
+  console.log("Wallet address:", signer.publicKey.toBase58());
+  return signer;
+}
+
+/**
+ * Loads the network profile named by the `--network` option or the NETWORK environment variable
+ * @param args - The parsed command-line arguments
+ * @returns The network profile, or undefined when none is selected
+ */
+export function loadNetwork(args: ParsedArgs): NetworkProfile | undefined {
+  const network = getOption(args, "network", process.env.NETWORK);
+  return network ? loadNetworkProfile(network) : undefined;
+}
+
+/**
+ * Loads the signing domain of the selected network profile
+ * @param args - The parsed command-line arguments
+ * @returns The signing domain of the profile, or the mainnet one when no profile is selected
+ */
+export function loadSigningDomain(args: ParsedArgs): SigningDomain {
+  return loadNetwork(args)?.signingDomain ?? DEFAULT_SIGNING_DOMAIN;
+}
+
+/**
+ * Loads the Rain program of the selected network profile. The `--program` option or the
+ * PROGRAM_ADDRESS environment variable override the profile program address. Without a profile,
+ * the program address is required and the cluster is read from SOLANA_RPC_URL.
+ * @param args - The parsed command-line arguments
+ * @param signer - The signer of the transactions, if the command sends any
+ * @returns The program instance
+ */
+export function loadProgram(args: ParsedArgs, signer?: SignerProvider): Program<Main> {
+  const network = loadNetwork(args);
+  if (network) {
+    return getNetworkProgram(network, signer, getOption(args, "program", process.env.PROGRAM_ADDRESS));
+  }
+  return getProgram(requireOption(args, "program", process.env.PROGRAM_ADDRESS), signer);
+}
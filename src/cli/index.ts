@@ -0,0 +1,71 @@
+import { parseArgs } from "./args";
+import { Command } from "./command";
+import { aggregateSignaturesCommand } from "./commands/aggregateSignatures";
+import { balancesCommand } from "./commands/balances";
+import { benchmarkHashingCommand } from "./commands/benchmarkHashing";
+import { createKeystoreCommand } from "./commands/createKeystore";
+import { discoverAccountsCommand } from "./commands/discoverAccounts";
+import { exportSignatureCommand } from "./commands/exportSignature";
+import { inspectCommand } from "./commands/inspect";
+import { inspectSignaturesCommand } from "./commands/inspectSignatures";
+import { mockSignerCommand } from "./commands/mockSigner";
+import { signCommand } from "./commands/sign";
+import { submitCommand } from "./commands/submit";
+import { withdrawCommand } from "./commands/withdraw";
+
+const COMMANDS: Command[] = [
+  withdrawCommand,
+  inspectCommand,
+  inspectSignaturesCommand,
+  balancesCommand,
+  signCommand,
+  submitCommand,
+  exportSignatureCommand,
+  aggregateSignaturesCommand,
+  discoverAccountsCommand,
+  createKeystoreCommand,
+  mockSignerCommand,
+  benchmarkHashingCommand,
+];
+
+/**
+ * The flags that never take a value
+ */
+const BOOLEAN_FLAGS = ["help", "dry-run", "verbose"];
+
+/**
+ * Prints the list of available commands
+ */
+function printHelp() {
+  console.log("Usage: rain-withdrawal <command> [options]\n");
+  console.log("Commands:");
+  const width = Math.max(...COMMANDS.map(command => command.name.length)) + 2;
+  for (const command of COMMANDS) {
+    console.log(`  ${command.name.padEnd(width)}${command.description}`);
+  }
+  console.log("\nRun `rain-withdrawal <command> --help` for the options of a command.");
+}
+
+/**
+ * Runs the CLI with the given arguments
+ * @param argv - The arguments without the node executable and script path
+ */
+export async function run(argv: string[]): Promise<void> {
+  const args = parseArgs(argv, BOOLEAN_FLAGS);
+  if (!args.command || args.command === "help") {
+    printHelp();
+    return;
+  }
+
+  const command = COMMANDS.find(c => c.name === args.command);
+  if (!command) {
+    printHelp();
+    throw new Error(`Unknown command: ${args.command}`);
+  }
+
+  if (args.options.help) {
+    console.log(`Usage: rain-withdrawal ${command.usage}`);
+    return;
+  }
+  await command.run(args);
+}
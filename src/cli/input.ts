@@ -0,0 +1,129 @@
+import { readFileSync } from "fs";
+import { Connection } from "@solana/web3.js";
+
+import {
+  WithdrawalSignatureResponse,
+  parsePublicKey,
+  parseWithdrawalSignatureResponse,
+} from "../withdrawalSignature";
+import { fetchTokenUnit, parseTokenAmount } from "../amount";
+import { ExportedAdminSignature, parseAdminSignature } from "../adminSignatures";
+import { ParsedArgs, getOption } from "./args";
+
+/**
+ * The flags that can be used to pass each position of the `parameters` array
+ */
+const PARAMETER_FLAGS = ["collateral", "asset", "amount", "recipient", "expires-at", "salt", "signature"];
+
+/**
+ * Reads the whole standard input as a string
+ * @returns The standard input contents
+ */
+function readStdin(): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    process.stdin.on("data", (chunk: Buffer) => chunks.push(chunk));
+    process.stdin.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+    process.stdin.on("error", reject);
+  });
+}
+
+/**
+ * Decodes raw JSON text, such as the API response or an exported admin signature file
+ * @param raw - The raw JSON text
+ * @param description - The subject of the error message, naming what was read. Defaults to the
+ * withdrawal signature response
+ * @returns The decoded value
+ */
+function parseJson(raw: string, description = "The withdrawal signature response"): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`${description} is not valid JSON: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Reads and validates the withdrawal signature API response from the command-line arguments.
+ *
+ * The parameters are taken, in order of precedence, from:
+ * 1. The file given with `--input` (`-` reads standard input)
+ * 2. The individual `--collateral`, `--asset`, `--amount`, `--recipient`, `--expires-at`,
+ *    `--salt` and `--signature` flags, and the optional `--executor` flag
+ * 3. Standard input, when it is not a terminal
+ *
+ * The response amounts are base units. `--amount` also accepts human units followed by the asset
+ * unit, e.g. `1.5 USDC`, converted with the mint decimals read through the connection.
+ *
+ * @param args - The parsed command-line arguments
+ * @param connection - The connection used to read the mint decimals, if any
+ * @returns The parsed withdrawal signature
+ */
+export async function readWithdrawalSignature(args: ParsedArgs, connection?: Connection): Promise<WithdrawalSignatureResponse> {
+  return parseWithdrawalSignatureResponse(await readRawResponse(args, connection));
+}
+
+/**
+ * Converts an `--amount` given in human units, e.g. `1.5 USDC`, into base units. An integer is
+ * taken as base units already.
+ * @param amount - The `--amount` value
+ * @param asset - The `--asset` value
+ * @param connection - The connection used to read the mint decimals, if any
+ * @returns The amount in base units, as a decimal string
+ */
+async function resolveAmountFlag(amount: string, asset: string, connection?: Connection): Promise<string> {
+  if (/^\d+$/.test(amount)) {
+    return amount;
+  }
+  if (!connection) {
+    throw new Error(`An --amount in human units needs the mint decimals: pass --network or --program to read them`);
+  }
+  const mint = parsePublicKey("asset", asset);
+  return parseTokenAmount(amount, await fetchTokenUnit(connection, mint), mint).toString();
+}
+
+/**
+ * Reads the raw withdrawal signature API response from the command-line arguments
+ * @param args - The parsed command-line arguments
+ * @param connection - The connection used to read the mint decimals, if any
+ * @returns The decoded, not yet validated, response
+ */
+async function readRawResponse(args: ParsedArgs, connection?: Connection): Promise<unknown> {
+  const input = getOption(args, "input");
+  if (input) {
+    return parseJson(input === "-" ? await readStdin() : readFileSync(input, "utf-8"));
+  }
+
+  if (PARAMETER_FLAGS.some(flag => args.options[flag] !== undefined)) {
+    const parameters = PARAMETER_FLAGS.map(flag => {
+      const value = getOption(args, flag);
+      if (value === undefined) {
+        throw new Error(`Missing required option --${flag}`);
+      }
+      return value;
+    });
+    const amountIndex = PARAMETER_FLAGS.indexOf("amount");
+    parameters[amountIndex] = await resolveAmountFlag(parameters[amountIndex], getOption(args, "asset")!, connection);
+    return { parameters, executor: getOption(args, "executor") };
+  }
+
+  if (!process.stdin.isTTY) {
+    return parseJson(await readStdin());
+  }
+
+  throw new Error("No withdrawal signature given. Use --input <file>, pipe it through stdin or pass the parameter flags");
+}
+
+/**
+ * Reads the admin signature files given as a comma-separated list in an option
+ * @param args - The parsed command-line arguments
+ * @param name - The option name
+ * @returns The exported admin signatures, empty when the option is not set
+ */
+export function readAdminSignatures(args: ParsedArgs, name: string): ExportedAdminSignature[] {
+  const files = getOption(args, name);
+  if (!files) {
+    return [];
+  }
+  return files.split(",").map(file => parseAdminSignature(parseJson(readFileSync(file, "utf-8"), `The admin signature ${file}`)));
+}
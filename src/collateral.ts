@@ -1,7 +1,9 @@
 import { PublicKey } from "@solana/web3.js";
 import { BN } from "@coral-xyz/anchor";
 
-import { HashUtils } from "./hashUtils";
+import { deriveCollateralAdminSignatures, deriveCollateralAuthority } from "./pda";
+import { DEFAULT_SIGNING_DOMAIN, SigningDomain } from "./signingDomain";
+import { TYPED_DATA_PREFIX, TypedDataDomain, TypedStruct, hashDomain, hashTypedData } from "./typedData";
 
 type WithdrawCollateral = {
     amountOfAsset: BN;
@@ -9,11 +11,19 @@ type WithdrawCollateral = {
     coordinatorSignatureSalt: number[];
 }
 
+type WithdrawStruct = {
+    sender: PublicKey;
+    collateral: PublicKey;
+    asset: PublicKey;
+    amount: bigint;
+    receiver: PublicKey;
+    nonce: number;
+}
+
 export class Collateral {
     static encode(): string {
-        return HashUtils.encodeBytes(new Uint8Array(Buffer.from('\x19\x01', 'latin1')));
+        return TYPED_DATA_PREFIX;
     }
-    private static DOMAIN_TYPE_HASH = HashUtils.encodeString('EIP712Domain(string name,string version,uint256 chainId,address verifyingContract,bytes32 salt)');
 
     static domainSeparatorEncode(
         name: string,
@@ -22,22 +32,31 @@ export class Collateral {
         verifyingContract: PublicKey,
         salt: Uint8Array,
     ): string {
-        // Encode the domain separator message structure
-        const encodedStructure = [
-            this.DOMAIN_TYPE_HASH,
-            HashUtils.encodeString(name),
-            HashUtils.encodeString(version),
-            HashUtils.encodeUInt64(chainId),
-            HashUtils.encodeAddress(verifyingContract),
-            HashUtils.encodeBytes(salt),
-        ].join('');
-
-        // Hash and return the domain separator message
-        return HashUtils.keccak256Hex(encodedStructure);
+        return hashDomain({ name, version, chainId, verifyingContract, salt });
     }
 
-    private static COLLATERAL_ADMIN_SIGNATURE_SEED = Buffer.from('CollateralAdminSignatures', 'utf-8');
-    private static WITHDRAW_TYPE_HASH = HashUtils.encodeString('Withdraw(address user,address asset,uint256 amount,address recipient,uint256 nonce)');
+    private static WITHDRAW_STRUCT = new TypedStruct<WithdrawStruct>(
+        'Withdraw(address user,address asset,uint256 amount,address recipient,uint256 nonce)',
+        [
+            ['sender', 'address'],
+            ['collateral', 'address'],
+            ['asset', 'address'],
+            ['amount', 'uint64'],
+            ['receiver', 'address'],
+            ['nonce', 'uint32'],
+        ],
+    );
+
+    /**
+     * Derivate the CollateralAuthority account, which owns the collateral assets. Its token
+     * accounts are the collateral deposit addresses.
+     * @param collateral - The collateral account ID
+     * @param programId - The Main program ID
+     * @returns - The collateral authority address
+     */
+    static deriveAuthorityPDA(collateral: PublicKey, programId: PublicKey): PublicKey {
+        return deriveCollateralAuthority(collateral, programId).address;
+    }
 
     /**
      * Derivate the account address using the collateral account ID and the Main program ID
@@ -47,15 +66,7 @@ export class Collateral {
      * @returns - The account address
      */
     static generateAdminSignaturePDA(collateral: PublicKey, id: Buffer, programId: PublicKey): PublicKey {
-        const [pda] = PublicKey.findProgramAddressSync(
-            [
-                Collateral.COLLATERAL_ADMIN_SIGNATURE_SEED,
-                collateral.toBuffer(),
-                id,
-            ],
-            programId,
-        );
-        return pda;
+        return deriveCollateralAdminSignatures(collateral, id, programId).address;
     }
 
     /**
@@ -98,6 +109,7 @@ export class Collateral {
      * @param asset - The asset to be withdrawn
      * @param withdraw - The withdraw collateral instruction data
      * @param salt - The salt for the collateral admins signatures
+     * @param domain - The signing domain of the program deployment. Defaults to the mainnet one
      * @returns - The withdraw message as buffer to be signed by the admins
      */
     static getWithdrawMessage(
@@ -108,21 +120,58 @@ export class Collateral {
         withdraw: WithdrawCollateral,
         salt: number[],
         adminFundsNonce: number,
+        domain: SigningDomain = DEFAULT_SIGNING_DOMAIN,
     ): Buffer {
-        const encodedData = [
-            this.encode(),
-            this.domainSeparatorEncode(
-                'Collateral',
-                '2',
-                900n,
-                collateral,
-                new Uint8Array(salt),
-            ),
-            Collateral.encodeWithdrawMessage(collateral, sender, receiver, asset, withdraw, adminFundsNonce),
-        ].join('');
+        return hashTypedData(
+            Collateral.domain(collateral, salt, domain),
+            Collateral.WITHDRAW_STRUCT,
+            Collateral.withdrawStruct(collateral, sender, receiver, asset, withdraw, adminFundsNonce),
+        );
+    }
 
-        const encodedDataHash = HashUtils.keccak256Hex(encodedData);
-        return Buffer.from(encodedDataHash, 'hex');
+    /**
+     * Gets the signing domain of the collateral admin messages
+     * @param collateral - The collateral address
+     * @param salt - The salt for the collateral admins signatures
+     * @param domain - The signing domain of the program deployment
+     * @returns The signing domain
+     */
+    private static domain(collateral: PublicKey, salt: number[], domain: SigningDomain): TypedDataDomain {
+        return {
+            name: domain.collateralName,
+            version: domain.version,
+            chainId: domain.chainId,
+            verifyingContract: collateral,
+            salt: new Uint8Array(salt),
+        };
+    }
+
+    /**
+     * Gets the values of the withdraw struct
+     * @param collateral - The collateral address
+     * @param sender - The sender address of the withdrawal
+     * @param receiver - The receiver address of the withdrawal
+     * @param asset - The asset address to withdraw
+     * @param withdraw - The withdraw collateral instruction data
+     * @param adminFundsNonce - The nonce for the admin funds
+     * @returns The withdraw struct values
+     */
+    private static withdrawStruct(
+        collateral: PublicKey,
+        sender: PublicKey,
+        receiver: PublicKey,
+        asset: PublicKey,
+        withdraw: WithdrawCollateral,
+        adminFundsNonce: number,
+    ): WithdrawStruct {
+        return {
+            sender,
+            collateral,
+            asset,
+            amount: BigInt(withdraw.amountOfAsset.toString()),
+            receiver,
+            nonce: adminFundsNonce,
+        };
     }
 
     /**
@@ -143,20 +192,8 @@ export class Collateral {
         withdraw: WithdrawCollateral,
         adminFundsNonce: number,
     ): string {
-        const amount = BigInt(withdraw.amountOfAsset.toString());
-
-        // Encode the structure
-        const encodedStructure = [
-            Collateral.WITHDRAW_TYPE_HASH,
-            HashUtils.encodeAddress(sender),
-            HashUtils.encodeAddress(collateral),
-            HashUtils.encodeAddress(asset),
-            HashUtils.encodeUInt64(amount),
-            HashUtils.encodeAddress(receiver),
-            HashUtils.encodeUInt32(adminFundsNonce),
-        ].join('');
-        // Hash and return the structure
-        const hashedStructure = HashUtils.keccak256Hex(encodedStructure);
-        return hashedStructure;
+        return Collateral.WITHDRAW_STRUCT.hash(
+            Collateral.withdrawStruct(collateral, sender, receiver, asset, withdraw, adminFundsNonce),
+        );
     }
 }
\ No newline at end of file
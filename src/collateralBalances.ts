@@ -0,0 +1,182 @@
+import { IdlAccounts, Program } from "@coral-xyz/anchor";
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID, unpackAccount, unpackMint } from "@solana/spl-token";
+import { AccountInfo, PublicKey } from "@solana/web3.js";
+
+import { Main } from "./types/main";
+import { TokenUnit, NATIVE_UNIT, formatTokenAmount, getTokenSymbol } from "./amount";
+import { deriveCollateralAuthority, deriveSupportedAsset } from "./pda";
+import { NATIVE_ASSET } from "./tokenMint";
+import { getClusterTime } from "./utils/clock";
+
+type SupportedAssetAccount = IdlAccounts<Main>["supportedAsset"];
+
+/**
+ * The number of decimals USD values are computed with
+ */
+const USD_UNIT: TokenUnit = { decimals: 6, symbol: "USD" };
+
+/**
+ * The price of an asset read from its Pyth oracle
+ */
+export type AssetPrice = {
+  /** The price mantissa, scaled by 10^exponent */
+  price: bigint;
+  exponent: number;
+  /** The unix timestamp, in seconds, at which the price was published */
+  publishTime: number;
+  /** Whether the price is older than the stale threshold of the supported asset */
+  stale: boolean;
+}
+
+/**
+ * An asset held by a collateral
+ */
+export type CollateralBalance = {
+  /** The asset mint, or the default key for native SOL */
+  asset: PublicKey;
+  /** The token account holding the asset, or null for native SOL held by the authority itself */
+  tokenAccount: PublicKey | null;
+  /** The SupportedAsset account of the coordinator, or null when the coordinator does not support the asset */
+  supportedAsset: PublicKey | null;
+  /** The balance in base units. For native SOL, the rent-exempt reserve of the authority is left out */
+  amount: bigint;
+  /** The decimals of the mint, or null when the mint account cannot be read */
+  decimals: number | null;
+  /** The balance in human units, e.g. `1.5 USDC`, or null when the decimals are unknown */
+  humanAmount: string | null;
+  /** The oracle price, when the supported asset has an oracle with a matching feed */
+  price?: AssetPrice;
+  /** The balance value in human units, e.g. `1.5 USD`, when the price and the decimals are known */
+  usdValue?: string;
+}
+
+/**
+ * Computes the USD value of an amount of base units, rounded down to the USD unit
+ * @param amount - The amount in base units
+ * @param decimals - The decimals of the asset
+ * @param price - The asset price
+ * @returns The value in base units of the USD unit
+ */
+function computeUsdValue(amount: bigint, decimals: number, price: AssetPrice): bigint {
+  const exponent = price.exponent - decimals + USD_UNIT.decimals;
+  const value = amount * price.price;
+  return exponent >= 0 ? value * 10n ** BigInt(exponent) : value / 10n ** BigInt(-exponent);
+}
+
+/**
+ * Reads the unit of a held token from its mint account
+ * @param asset - The mint address
+ * @param mint - The mint account, null when it does not exist
+ * @returns The unit, or null when the account is missing or is not a mint
+ */
+function readTokenUnit(asset: PublicKey, mint: AccountInfo<Buffer> | null): TokenUnit | null {
+  if (!mint) {
+    return null;
+  }
+  try {
+    return { decimals: unpackMint(asset, mint, mint.owner).decimals, symbol: getTokenSymbol(asset) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the prices of the supported assets from their oracles. An oracle whose feed differs
+ * from the one configured for the asset is ignored.
+ * @param program - The Main program
+ * @param supportedAssets - The supported assets
+ * @returns The price of each supported asset, or null when it has no usable oracle
+ */
+async function fetchAssetPrices(
+  program: Program<Main>,
+  supportedAssets: (SupportedAssetAccount | null)[],
+): Promise<(AssetPrice | null)[]> {
+  const oracles = supportedAssets.map(supportedAsset =>
+    supportedAsset && !supportedAsset.oracle.equals(PublicKey.default) ? supportedAsset.oracle : null
+  );
+  const configured = oracles.filter((oracle): oracle is PublicKey => oracle !== null);
+  if (configured.length === 0) {
+    return oracles.map(() => null);
+  }
+
+  const updates = await program.account.priceUpdateV2.fetchMultiple(configured);
+  const clusterTime = await getClusterTime(program.provider.connection);
+  let next = 0;
+  return oracles.map((oracle, index) => {
+    if (!oracle) {
+      return null;
+    }
+    const update = updates[next++];
+    const supportedAsset = supportedAssets[index]!;
+    if (!update || !Buffer.from(update.priceMessage.feedId).equals(Buffer.from(supportedAsset.feedId))) {
+      return null;
+    }
+    const publishTime = update.priceMessage.publishTime.toNumber();
+    return {
+      price: BigInt(update.priceMessage.price.toString()),
+      exponent: update.priceMessage.exponent,
+      publishTime,
+      stale: clusterTime - publishTime > supportedAsset.staleThreshold,
+    };
+  });
+}
+
+/**
+ * Lists the assets held by a collateral: every token account owned by its CollateralAuthority,
+ * under both the legacy token program and Token-2022, and its native SOL balance when the
+ * coordinator supports native SOL, less the rent-exempt reserve of the authority. Each asset is
+ * joined with its SupportedAsset account for the coordinator, and valued in USD when the supported
+ * asset has an oracle. A token whose mint cannot be read is listed with unknown decimals.
+ * @param program - The Main program
+ * @param collateral - The collateral account
+ * @returns The balance of each asset, empty token accounts included
+ */
+export async function getCollateralBalances(program: Program<Main>, collateral: PublicKey): Promise<CollateralBalance[]> {
+  const connection = program.provider.connection;
+  const { coordinator } = await program.account.collateral.fetch(collateral);
+  const authority = deriveCollateralAuthority(collateral, program.programId).address;
+
+  const holdings: { asset: PublicKey; tokenAccount: PublicKey | null; amount: bigint }[] = [];
+  for (const programId of [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID]) {
+    const { value } = await connection.getTokenAccountsByOwner(authority, { programId });
+    for (const { pubkey, account } of value) {
+      const tokenAccount = unpackAccount(pubkey, account, programId);
+      holdings.push({ asset: tokenAccount.mint, tokenAccount: pubkey, amount: tokenAccount.amount });
+    }
+  }
+
+  // The authority holds native SOL itself, and must keep its rent-exempt reserve
+  const nativeSupportedAsset = deriveSupportedAsset(coordinator, NATIVE_ASSET, program.programId).address;
+  if (await connection.getAccountInfo(nativeSupportedAsset)) {
+    const authorityAccount = await connection.getAccountInfo(authority);
+    const reserve = authorityAccount
+      ? await connection.getMinimumBalanceForRentExemption(authorityAccount.data.length)
+      : 0;
+    const lamports = BigInt(Math.max((authorityAccount?.lamports ?? 0) - reserve, 0));
+    holdings.push({ asset: NATIVE_ASSET, tokenAccount: null, amount: lamports });
+  }
+
+  if (holdings.length === 0) {
+    return [];
+  }
+
+  const supportedAssetAddresses = holdings.map(({ asset }) => deriveSupportedAsset(coordinator, asset, program.programId).address);
+  const supportedAssets = await program.account.supportedAsset.fetchMultiple(supportedAssetAddresses);
+  const mints = await connection.getMultipleAccountsInfo(holdings.map(({ asset }) => asset));
+  const prices = await fetchAssetPrices(program, supportedAssets);
+
+  return holdings.map(({ asset, tokenAccount, amount }, index) => {
+    const unit = tokenAccount ? readTokenUnit(asset, mints[index]) : NATIVE_UNIT;
+    const price = prices[index] ?? undefined;
+    return {
+      asset,
+      tokenAccount,
+      supportedAsset: supportedAssets[index] ? supportedAssetAddresses[index] : null,
+      amount,
+      decimals: unit?.decimals ?? null,
+      humanAmount: unit ? formatTokenAmount(amount, unit) : null,
+      price,
+      usdValue: price && unit ? formatTokenAmount(computeUsdValue(amount, unit.decimals, price), USD_UNIT) : undefined,
+    };
+  });
+}
@@ -1,7 +1,8 @@
 import { PublicKey } from "@solana/web3.js";
 import { BN } from "@coral-xyz/anchor";
 
-import { HashUtils } from "./hashUtils";
+import { DEFAULT_SIGNING_DOMAIN, SigningDomain } from "./signingDomain";
+import { TYPED_DATA_PREFIX, TypedStruct, hashDomain, hashTypedData } from "./typedData";
 
 type WithdrawCollateral = {
     amountOfAsset: BN;
@@ -9,11 +10,21 @@ type WithdrawCollateral = {
     coordinatorSignatureSalt: number[];
 }
 
+type WithdrawStruct = {
+    sender: PublicKey;
+    collateral: PublicKey;
+    asset: PublicKey;
+    amount: bigint;
+    receiver: PublicKey;
+    nonce: number;
+    expiresAt: bigint;
+}
+
 export class Coordinator {
     static encode(): string {
-        return HashUtils.encodeBytes(new Uint8Array(Buffer.from('\x19\x01', 'latin1')));
+        return TYPED_DATA_PREFIX;
     }
-    private static DOMAIN_TYPE_HASH = HashUtils.encodeString('EIP712Domain(string name,string version,uint256 chainId,address verifyingContract,bytes32 salt)');
+
     static domainSeparatorEncode(
         name: string,
         version: string,
@@ -21,20 +32,20 @@ export class Coordinator {
         verifyingContract: PublicKey,
         salt: Uint8Array,
     ): string {
-        // Encode the domain separator message structure
-        const encodedStructure = [
-            this.DOMAIN_TYPE_HASH,
-            HashUtils.encodeString(name),
-            HashUtils.encodeString(version),
-            HashUtils.encodeUInt64(chainId),
-            HashUtils.encodeAddress(verifyingContract),
-            HashUtils.encodeBytes(salt),
-        ].join('');
-
-        // Hash and return the domain separator message
-        return HashUtils.keccak256Hex(encodedStructure);
+        return hashDomain({ name, version, chainId, verifyingContract, salt });
     }
-    private static WITHDRAW_TYPE_HASH = HashUtils.encodeString('Withdraw(address user,address collateral,address asset,uint256 amount,address recipient,uint256 nonce,uint256 expiresAt)');
+    private static WITHDRAW_STRUCT = new TypedStruct<WithdrawStruct>(
+        'Withdraw(address user,address collateral,address asset,uint256 amount,address recipient,uint256 nonce,uint256 expiresAt)',
+        [
+            ['sender', 'address'],
+            ['collateral', 'address'],
+            ['asset', 'address'],
+            ['amount', 'uint64'],
+            ['receiver', 'address'],
+            ['nonce', 'uint32'],
+            ['expiresAt', 'uint64'],
+        ],
+    );
 
     /**
      * Encodes the coordinator withdraw message
@@ -54,23 +65,38 @@ export class Coordinator {
         withdrawRequest: WithdrawCollateral,
         adminFundsNonce: number,
     ): string {
-        const amount = BigInt(withdrawRequest.amountOfAsset.toString());
-        const nonce = adminFundsNonce;
-        const expiresAt = BigInt(withdrawRequest.signatureExpirationTime.toString());
-        // Encode the structure
-        const encodedStructure = [
-            Coordinator.WITHDRAW_TYPE_HASH,
-            HashUtils.encodeAddress(sender),
-            HashUtils.encodeAddress(collateral),
-            HashUtils.encodeAddress(asset),
-            HashUtils.encodeUInt64(amount),
-            HashUtils.encodeAddress(receiver),
-            HashUtils.encodeUInt32(nonce),
-            HashUtils.encodeUInt64(expiresAt),
-        ].join('');
+        return Coordinator.WITHDRAW_STRUCT.hash(
+            Coordinator.withdrawStruct(collateral, sender, receiver, asset, withdrawRequest, adminFundsNonce),
+        );
+    }
 
-        // Hash and return the structure
-        return HashUtils.keccak256Hex(encodedStructure);
+    /**
+     * Gets the values of the withdraw struct
+     * @param collateral - The collateral address
+     * @param sender - The sender address of the withdrawal
+     * @param receiver - The receiver address of the withdrawal
+     * @param asset - The asset address to withdraw
+     * @param withdrawRequest - The withdraw collateral instruction data
+     * @param adminFundsNonce - The nonce for the admin funds
+     * @returns The withdraw struct values
+     */
+    private static withdrawStruct(
+        collateral: PublicKey,
+        sender: PublicKey,
+        receiver: PublicKey,
+        asset: PublicKey,
+        withdrawRequest: WithdrawCollateral,
+        adminFundsNonce: number,
+    ): WithdrawStruct {
+        return {
+            sender,
+            collateral,
+            asset,
+            amount: BigInt(withdrawRequest.amountOfAsset.toString()),
+            receiver,
+            nonce: adminFundsNonce,
+            expiresAt: BigInt(withdrawRequest.signatureExpirationTime.toString()),
+        };
     }
 
     /**
@@ -82,6 +108,7 @@ export class Coordinator {
      * @param asset - The asset address to withdraw
      * @param withdrawRequest - The withdraw collateral instruction data
      * @param adminFundsNonce - The nonce for the admin funds
+     * @param domain - The signing domain of the program deployment. Defaults to the mainnet one
      * @returns The coordinator withdraw message
      */
     static getWithdrawMessage(
@@ -92,20 +119,18 @@ export class Coordinator {
         asset: PublicKey,
         withdraw: WithdrawCollateral,
         adminFundsNonce: number,
+        domain: SigningDomain = DEFAULT_SIGNING_DOMAIN,
     ): Buffer {
-        const encodedData = [
-            this.encode(),
-            this.domainSeparatorEncode(
-                'Coordinator',
-                '2',
-                900n,
-                coordinator,
-                new Uint8Array(withdraw.coordinatorSignatureSalt),
-            ),
-            Coordinator.encodeWithdrawMessage(collateral, sender, receiver, asset, withdraw, adminFundsNonce),
-        ].join('');
-
-        const encodedDataHash = HashUtils.keccak256Hex(encodedData);
-        return Buffer.from(encodedDataHash, 'hex');
+        return hashTypedData(
+            {
+                name: domain.coordinatorName,
+                version: domain.version,
+                chainId: domain.chainId,
+                verifyingContract: coordinator,
+                salt: new Uint8Array(withdraw.coordinatorSignatureSalt),
+            },
+            Coordinator.WITHDRAW_STRUCT,
+            Coordinator.withdrawStruct(collateral, sender, receiver, asset, withdraw, adminFundsNonce),
+        );
     }
-}
\ No newline at end of file
+}
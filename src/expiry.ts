@@ -0,0 +1,47 @@
+import { Connection } from "@solana/web3.js";
+
+import { getClusterTime } from "./utils/clock";
+
+/**
+ * The default number of seconds a coordinator signature must remain valid for before a
+ * transaction relying on it is sent, to leave time for it to land
+ */
+export const DEFAULT_EXPIRY_MARGIN_SECONDS = 60;
+
+/**
+ * Error thrown when a coordinator signature has expired, or will before a transaction can land
+ */
+export class SignatureExpiredError extends Error {
+  constructor(readonly expiresAt: number, readonly clusterTime: number, readonly marginSeconds: number) {
+    super(expiresAt <= clusterTime
+      ? `The coordinator signature expired at ${expiresAt}, ${clusterTime - expiresAt}s ago on the cluster clock. Request a new signature.`
+      : `The coordinator signature expires at ${expiresAt}, in ${expiresAt - clusterTime}s on the cluster clock, within the ${marginSeconds}s safety margin. Request a new signature.`);
+    this.name = "SignatureExpiredError";
+  }
+}
+
+/**
+ * Checks that a coordinator signature remains valid for at least the safety margin, using the
+ * cluster clock rather than the local one as it is the clock the program checks the expiration with
+ * @param connection - The connection to the Solana network
+ * @param expiresAt - The unix timestamp, in seconds, at which the signature expires
+ * @param marginSeconds - The number of seconds the signature must remain valid for
+ * @returns The cluster time
+ *
+ * @throws SignatureExpiredError if the signature expires within the safety margin
+ */
+export async function assertSignatureNotExpired(
+  connection: Connection,
+  expiresAt: number,
+  marginSeconds: number = DEFAULT_EXPIRY_MARGIN_SECONDS,
+): Promise<number> {
+  if (!Number.isSafeInteger(marginSeconds) || marginSeconds < 0) {
+    throw new Error(`Invalid expiry safety margin: ${marginSeconds}`);
+  }
+
+  const clusterTime = await getClusterTime(connection);
+  if (expiresAt - marginSeconds <= clusterTime) {
+    throw new SignatureExpiredError(expiresAt, clusterTime, marginSeconds);
+  }
+  return clusterTime;
+}
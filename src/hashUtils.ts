@@ -1,28 +1,124 @@
 import { PublicKey } from "@solana/web3.js";
+import { keccak_256 } from "@noble/hashes/sha3";
 import crypto from 'crypto-js';
 
+/**
+ * A Keccak-256 implementation, hashing bytes into a 32-byte hash
+ */
+export type KeccakBackend = (data: Uint8Array) => Uint8Array;
+
+/**
+ * Keccak-256 from `@noble/hashes`, which hashes the bytes directly. The default backend.
+ */
+export const nobleKeccakBackend: KeccakBackend = data => keccak_256(data);
+
+/**
+ * Keccak-256 from `crypto-js`, the original backend, which converts the bytes to a `WordArray`
+ * through hex
+ */
+export const cryptoJsKeccakBackend: KeccakBackend = data => {
+  const wordArray = crypto.enc.Hex.parse(Buffer.from(data).toString('hex'));
+  const hash = crypto.SHA3(wordArray, { outputLength: 256 });
+  return Buffer.from(hash.toString(), 'hex');
+};
+
+/**
+ * The integer types of the program, by their Rust name
+ */
+export type IntegerType = 'u8' | 'u16' | 'u32' | 'u64' | 'u128' | 'i64';
+
+/**
+ * The encoded size in bytes and signedness of each integer type
+ */
+const INTEGER_TYPES: { [K in IntegerType]: { size: number; signed: boolean } } = {
+  u8: { size: 1, signed: false },
+  u16: { size: 2, signed: false },
+  u32: { size: 4, signed: false },
+  u64: { size: 8, signed: false },
+  u128: { size: 16, signed: false },
+  i64: { size: 8, signed: true },
+};
+
+/**
+ * Error thrown when a value is not an integer or is out of the range of its integer type
+ */
+export class IntegerEncodingError extends Error {
+  constructor(readonly type: IntegerType, readonly value: unknown, reason: string) {
+    super(`Cannot encode ${String(value)} as ${type}: ${reason}`);
+    this.name = "IntegerEncodingError";
+  }
+}
+
+/**
+ * Error thrown when a fixed-size byte string has the wrong length
+ */
+export class BytesLengthError extends Error {
+  constructor(readonly expected: number, readonly actual: number) {
+    super(`Cannot encode ${actual} bytes as bytes${expected}: expected exactly ${expected} bytes`);
+    this.name = "BytesLengthError";
+  }
+}
+
 export class HashUtils {
+  private static backend: KeccakBackend = nobleKeccakBackend;
+
+  /**
+   * Replaces the Keccak-256 implementation used by every hash
+   * @param backend - The Keccak-256 implementation
+   */
+  static setKeccakBackend(backend: KeccakBackend): void {
+    HashUtils.backend = backend;
+  }
+
+  /**
+   * Gets the Keccak-256 implementation used by every hash
+   * @returns The Keccak-256 implementation
+   */
+  static getKeccakBackend(): KeccakBackend {
+    return HashUtils.backend;
+  }
+
+  /**
+   * Hashes the given bytes using the Keccak-256 algorithm
+   * @param data - The bytes to hash
+   * @returns The 32-byte hash
+   */
+  static keccak256Bytes(data: Uint8Array): Uint8Array {
+    return HashUtils.backend(data);
+  }
+
+  /**
+   * Concatenates the given byte strings
+   * @param parts - The byte strings
+   * @returns The concatenated bytes
+   */
+  static concatBytes(...parts: Uint8Array[]): Uint8Array {
+    const bytes = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      bytes.set(part, offset);
+      offset += part.length;
+    }
+    return bytes;
+  }
+
   /**
    * Hashes the given data using the Keccak-256 algorithm and returns the result as a hex string
-   * @param data - The data to hash
+   * @param data - The data to hash, as a hex string
    * @returns The hash of the data as a hex string
    */
   static keccak256Hex(data: string): string {
-    const wordArray = crypto.enc.Hex.parse(data);
-    const hash = crypto.SHA3(wordArray, { outputLength: 256 });
-    return hash.toString();
+    return Buffer.from(HashUtils.keccak256Bytes(Buffer.from(data, 'hex'))).toString('hex');
   }
 
   /**
-   * Hashes the given data using the SHA3 hashing algorithm and returns the result as a hex string
-   * @param data - The data to hash
-   * @returns The hash of the data as a hex string
+   * Hashes the UTF-8 bytes of the given string using the Keccak-256 algorithm and returns the
+   * result as a hex string. Use `keccak256Hex` for data given as hex.
+   * @param data - The string to hash
+   * @returns The hash of the string as a hex string
    */
   static keccak256(data: string): string {
-    // Hash the data using the SHA3 hashing algorithm
-    const hash = crypto.SHA3(data, { outputLength: 256 });
-    // Return the hash as a hex string
-    return hash.toString();
+    return Buffer.from(HashUtils.encodeStringBytes(data)).toString('hex');
   }
 
   /**
@@ -34,6 +130,15 @@ export class HashUtils {
     return HashUtils.keccak256(value);
   }
 
+  /**
+   * Encodes the given string as the Keccak-256 hash of its UTF-8 bytes
+   * @param value - The string to encode
+   * @returns The 32-byte encoded string
+   */
+  static encodeStringBytes(value: string): Uint8Array {
+    return HashUtils.keccak256Bytes(Buffer.from(value, 'utf8'));
+  }
+
   /**
    * Encodes the given address as a hex string
    * @param value - The address to encode
@@ -43,22 +148,160 @@ export class HashUtils {
     return value.toBuffer().toString('hex');
   }
 
+  /**
+   * Encodes the given address as its 32 bytes
+   * @param value - The address to encode
+   * @returns The encoded address
+   */
+  static encodeAddressBytes(value: PublicKey): Uint8Array {
+    return value.toBytes();
+  }
+
+  /**
+   * Encodes the given integer as big-endian bytes of the width of its type, in two's complement
+   * for signed types
+   * @param type - The integer type
+   * @param value - The integer to encode
+   * @returns The encoded integer
+   *
+   * @throws IntegerEncodingError if the value is not an integer or is out of range
+   */
+  static encodeIntegerBytes(type: IntegerType, value: bigint | number): Uint8Array {
+    if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+      throw new IntegerEncodingError(type, value, 'expected a safe integer number or a bigint');
+    }
+    if (typeof value !== 'number' && typeof value !== 'bigint') {
+      throw new IntegerEncodingError(type, value, `expected a number or a bigint, got ${typeof value}`);
+    }
+
+    const { size, signed } = INTEGER_TYPES[type];
+    const bits = BigInt(size * 8);
+    const min = signed ? -(1n << (bits - 1n)) : 0n;
+    const max = (signed ? 1n << (bits - 1n) : 1n << bits) - 1n;
+    let remaining = BigInt(value);
+    if (remaining < min || remaining > max) {
+      throw new IntegerEncodingError(type, value, `expected a value between ${min} and ${max}`);
+    }
+    if (remaining < 0n) {
+      remaining += 1n << bits;
+    }
+
+    const bytes = new Uint8Array(size);
+    for (let i = size - 1; i >= 0; i--) {
+      bytes[i] = Number(remaining & 0xffn);
+      remaining >>= 8n;
+    }
+    return bytes;
+  }
+
   /**
    * Encodes the given unsigned integer as a hex string
    * @param value - The unsigned integer to encode
    * @returns The encoded unsigned integer as a hex string
+   *
+   * @throws IntegerEncodingError if the value is not a u8
+   */
+  static encodeUInt8(value: bigint | number): string {
+    return HashUtils.encodeBytes(HashUtils.encodeIntegerBytes('u8', value));
+  }
+
+  /**
+   * Encodes the given unsigned integer as a hex string
+   * @param value - The unsigned integer to encode
+   * @returns The encoded unsigned integer as a hex string
+   *
+   * @throws IntegerEncodingError if the value is not a u16
+   */
+  static encodeUInt16(value: bigint | number): string {
+    return HashUtils.encodeBytes(HashUtils.encodeIntegerBytes('u16', value));
+  }
+
+  /**
+   * Encodes the given unsigned integer as a hex string
+   * @param value - The unsigned integer to encode
+   * @returns The encoded unsigned integer as a hex string
+   *
+   * @throws IntegerEncodingError if the value is not a u32
    */
   static encodeUInt32(value: bigint | number): string {
-    return value.toString(16).padStart(8, '0');
+    return HashUtils.encodeBytes(HashUtils.encodeIntegerBytes('u32', value));
   }
 
   /**
    * Encodes the given unsigned integer as a hex string
    * @param value - The unsigned integer to encode
    * @returns The encoded unsigned integer as a hex string
+   *
+   * @throws IntegerEncodingError if the value is not a u64
+   */
+  static encodeUInt64(value: bigint | number): string {
+    return HashUtils.encodeBytes(HashUtils.encodeIntegerBytes('u64', value));
+  }
+
+  /**
+   * Encodes the given unsigned integer as a hex string
+   * @param value - The unsigned integer to encode
+   * @returns The encoded unsigned integer as a hex string
+   *
+   * @throws IntegerEncodingError if the value is not a u128
+   */
+  static encodeUInt128(value: bigint | number): string {
+    return HashUtils.encodeBytes(HashUtils.encodeIntegerBytes('u128', value));
+  }
+
+  /**
+   * Encodes the given signed integer as a hex string, in two's complement
+   * @param value - The signed integer to encode
+   * @returns The encoded signed integer as a hex string
+   *
+   * @throws IntegerEncodingError if the value is not an i64
+   */
+  static encodeInt64(value: bigint | number): string {
+    return HashUtils.encodeBytes(HashUtils.encodeIntegerBytes('i64', value));
+  }
+
+  /**
+   * Encodes the given boolean as a single byte, 1 for true and 0 for false
+   * @param value - The boolean to encode
+   * @returns The encoded boolean
+   */
+  static encodeBoolBytes(value: boolean): Uint8Array {
+    return new Uint8Array([value ? 1 : 0]);
+  }
+
+  /**
+   * Encodes the given boolean as a hex string
+   * @param value - The boolean to encode
+   * @returns The encoded boolean as a hex string
+   */
+  static encodeBool(value: boolean): string {
+    return HashUtils.encodeBytes(HashUtils.encodeBoolBytes(value));
+  }
+
+  /**
+   * Checks the length of a fixed-size byte string
+   * @param value - The bytes to encode
+   * @param size - The expected number of bytes
+   * @returns The bytes
+   *
+   * @throws BytesLengthError if the bytes are not exactly `size` long
+   */
+  static encodeFixedBytes(value: Uint8Array, size: number): Uint8Array {
+    if (value.length !== size) {
+      throw new BytesLengthError(size, value.length);
+    }
+    return value;
+  }
+
+  /**
+   * Encodes the given 32 bytes as a hex string
+   * @param value - The bytes to encode
+   * @returns The encoded bytes as a hex string
+   *
+   * @throws BytesLengthError if the bytes are not exactly 32 bytes long
    */
-  static encodeUInt64(value: bigint): string {
-    return value.toString(16).padStart(16, '0');
+  static encodeBytes32(value: Uint8Array): string {
+    return HashUtils.encodeBytes(HashUtils.encodeFixedBytes(value, 32));
   }
 
   /**
@@ -69,4 +312,4 @@ export class HashUtils {
   static encodeBytes(value: Uint8Array): string {
     return Array.from(value).map(b => b.toString(16).padStart(2, '0')).join('');
   }
-}
\ No newline at end of file
+}
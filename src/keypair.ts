@@ -0,0 +1,188 @@
+import { readFileSync } from "fs";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { bs58 } from "@coral-xyz/anchor/dist/cjs/utils/bytes";
+import { mnemonicToSeedSync } from "@scure/bip39";
+import { derivePath } from "ed25519-hd-key";
+
+/**
+ * The default Solana BIP-44 derivation path, used by most wallets. `{account}` is replaced by the
+ * account index:
+ * - 44' = BIP-44 standard
+ * - 501' = Solana's coin type
+ * - {account}' = account index
+ * - 0' = change index (0 for external addresses), omitted by the legacy path
+ */
+export const DEFAULT_DERIVATION_PATH = "m/44'/501'/{account}'/0'";
+
+/**
+ * The known Solana BIP-44 derivation paths by name
+ */
+export const DERIVATION_PATHS: ReadonlyMap<string, string> = new Map([
+  ["default", DEFAULT_DERIVATION_PATH],
+  ["legacy", "m/44'/501'/{account}'"],
+]);
+
+export type MnemonicOptions = {
+  /** The derivation path or the name of a known one, optionally with an `{account}` placeholder */
+  derivationPath?: string;
+  /** The account index replacing the `{account}` placeholder. Defaults to 0 */
+  accountIndex?: number;
+  /** The optional BIP39 passphrase */
+  passphrase?: string;
+}
+
+/**
+ * An account derived from a mnemonic phrase
+ */
+export type DerivedAccount = {
+  derivationPath: string;
+  accountIndex: number;
+  publicKey: PublicKey;
+}
+
+/**
+ * Resolves the derivation path for the given account index
+ * @param derivationPath - The derivation path or the name of a known one, optionally with an
+ * `{account}` placeholder
+ * @param accountIndex - The account index
+ * @returns The derivation path without placeholders
+ *
+ * @throws Error if the account index or the derivation path is invalid
+ */
+export function resolveDerivationPath(derivationPath: string, accountIndex: number): string {
+  if (!Number.isInteger(accountIndex) || accountIndex < 0 || accountIndex >= 2 ** 31) {
+    throw new Error(`Invalid account index: ${accountIndex}`);
+  }
+
+  const path = (DERIVATION_PATHS.get(derivationPath) ?? derivationPath).replace("{account}", String(accountIndex));
+  // ed25519 only supports hardened derivation, so every segment must end with an apostrophe
+  if (!/^m(\/\d+')+$/.test(path)) {
+    throw new Error(`Invalid derivation path ${path}: expected hardened segments like m/44'/501'/0'/0'`);
+  }
+  return path;
+}
+
+/**
+ * Derives a Solana Keypair from a BIP39 seed
+ * @param seed - The BIP39 seed
+ * @param path - The resolved derivation path
+ * @returns A Solana Keypair instance
+ */
+function deriveKeypairFromSeed(seed: Uint8Array, path: string): Keypair {
+  // Derive the 32-byte seed using the BIP-44 derivation path and generate the keypair from it
+  const derivedSeed = derivePath(path, Buffer.from(seed).toString("hex")).key;
+  return Keypair.fromSeed(derivedSeed);
+}
+
+/**
+ * Derives a Solana Keypair from a BIP39 mnemonic phrase
+ * @param mnemonic - The mnemonic phrase
+ * @param options - The derivation path, account index and BIP39 passphrase
+ * @returns A Solana Keypair instance
+ *
+ * @throws Error if the keypair cannot be derived
+ */
+export function deriveKeypairFromMnemonic(mnemonic: string, options: MnemonicOptions = {}): Keypair {
+  const path = resolveDerivationPath(
+    options.derivationPath ?? DEFAULT_DERIVATION_PATH,
+    options.accountIndex ?? 0
+  );
+
+  try {
+    // Convert mnemonic phrase to seed using BIP39 PBKDF2
+    const seed = mnemonicToSeedSync(mnemonic, options.passphrase);
+    return deriveKeypairFromSeed(seed, path);
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`Failed to derive keypair from mnemonic: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Derives the public keys of the first accounts of a mnemonic phrase
+ * @param mnemonic - The mnemonic phrase
+ * @param count - The number of account indices to derive, starting at 0
+ * @param derivationPaths - The derivation paths to derive each account index with
+ * @param passphrase - The optional BIP39 passphrase
+ * @returns The derived accounts, ordered by derivation path and account index
+ */
+export function deriveMnemonicAccounts(
+  mnemonic: string,
+  count: number,
+  derivationPaths: string[] = [...DERIVATION_PATHS.keys()],
+  passphrase?: string,
+): DerivedAccount[] {
+  // The seed derivation is the expensive part, so it is computed only once
+  const seed = mnemonicToSeedSync(mnemonic, passphrase);
+
+  const accounts: DerivedAccount[] = [];
+  for (const derivationPath of derivationPaths) {
+    for (let accountIndex = 0; accountIndex < count; accountIndex++) {
+      const path = resolveDerivationPath(derivationPath, accountIndex);
+      accounts.push({
+        derivationPath: path,
+        accountIndex,
+        publicKey: deriveKeypairFromSeed(seed, path).publicKey,
+      });
+    }
+  }
+  return accounts;
+}
+
+/**
+ * Creates a Solana Keypair from either a base58-encoded secret key or a mnemonic phrase.
+ *
+ * @param input - Either a base58-encoded secret key string or a mnemonic phrase
+ * @param options - The derivation options used when the input is a mnemonic phrase
+ * @returns A Solana Keypair instance
+ *
+ * @throws Error if the input format is invalid or cannot be decoded
+ */
+export function createKeypairFromInput(input: string, options: MnemonicOptions = {}): Keypair {
+  // Check if input contains spaces (indicating it's a mnemonic phrase)
+  if (input.includes(" ")) {
+    return deriveKeypairFromMnemonic(input, options);
+  }
+
+  // Handle base58-encoded secret key
+  let decoded: Uint8Array;
+  try {
+    decoded = bs58.decode(input);
+  } catch {
+    // Never include the input in the error, it is a secret
+    throw new Error(`Invalid input format. Expected either:\n1. A base58-encoded 32-byte seed or 64-byte secret key\n2. A BIP39 mnemonic phrase (with spaces)`);
+  }
+
+  // Solana secret keys can be either:
+  // - 64 bytes: full secret key (32 bytes secret + 32 bytes public key)
+  // - 32 bytes: seed that can be used with Keypair.fromSeed()
+  if (decoded.length === 64) {
+    return Keypair.fromSecretKey(Uint8Array.from(decoded));
+  } else if (decoded.length === 32) {
+    return Keypair.fromSeed(Uint8Array.from(decoded));
+  }
+  throw new Error(`Invalid secret key length: expected 32 or 64 bytes, got ${decoded.length}. If this is a mnemonic, ensure it contains spaces.`);
+}
+
+/**
+ * Reads a keypair file in the Solana CLI format, a JSON array with the 64 secret key bytes
+ * @param path - The path of the keypair file
+ * @returns A Solana Keypair instance
+ *
+ * @throws Error if the file is not a valid keypair file
+ */
+export function readKeypairFile(path: string): Keypair {
+  let secretKey: unknown;
+  try {
+    secretKey = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    throw new Error(`Failed to read keypair file ${path}: ${(error as Error).message}`);
+  }
+
+  if (!Array.isArray(secretKey) || secretKey.length !== 64 || !secretKey.every(byte => Number.isInteger(byte) && byte >= 0 && byte <= 255)) {
+    throw new Error(`Invalid keypair file ${path}: expected a JSON array of 64 bytes`);
+  }
+  return Keypair.fromSecretKey(Uint8Array.from(secretKey));
+}
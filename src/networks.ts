@@ -0,0 +1,180 @@
+import { existsSync, readFileSync } from "fs";
+import { Commitment, PublicKey } from "@solana/web3.js";
+
+import { DEFAULT_SIGNING_DOMAIN, SigningDomain } from "./signingDomain";
+
+/**
+ * The cluster and program deployment a command talks to
+ */
+export type NetworkProfile = {
+  name: string;
+  rpcUrl: string;
+  /** The websocket URL. Defaults to the one derived from the RPC URL */
+  wsUrl?: string;
+  commitment: Commitment;
+  /** The Rain program address. When missing, it must be given with `--program` */
+  programId?: PublicKey;
+  signingDomain: SigningDomain;
+  /** The coordinators known to be legitimate on this network */
+  coordinators: PublicKey[];
+}
+
+/**
+ * The file holding the network profiles, relative to the working directory, unless the
+ * NETWORKS_FILE environment variable names another one
+ */
+export const DEFAULT_NETWORKS_FILE = "networks.json";
+
+const COMMITMENTS: Commitment[] = ["processed", "confirmed", "finalized"];
+
+/**
+ * Error thrown when the network profiles file is invalid or a profile does not exist
+ */
+export class NetworkProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NetworkProfileError";
+  }
+}
+
+/**
+ * Parses a base58 public key of a profile
+ * @param profile - The profile name used in errors
+ * @param field - The field name used in errors
+ * @param value - The raw value
+ * @returns The public key
+ */
+function parseProfileKey(profile: string, field: string, value: unknown): PublicKey {
+  try {
+    if (typeof value !== "string") {
+      throw new Error();
+    }
+    return new PublicKey(value);
+  } catch {
+    throw new NetworkProfileError(`Invalid \`${field}\` in network profile ${profile}: expected a base58 public key`);
+  }
+}
+
+/**
+ * Parses a string field of a profile
+ * @param profile - The profile name used in errors
+ * @param field - The field name used in errors
+ * @param value - The raw value
+ * @returns The string
+ */
+function parseProfileString(profile: string, field: string, value: unknown): string {
+  if (typeof value !== "string" || value.length === 0) {
+    throw new NetworkProfileError(`Invalid \`${field}\` in network profile ${profile}: expected a non-empty string`);
+  }
+  return value;
+}
+
+/**
+ * Parses the signing domain of a profile. The missing fields take the default domain values.
+ * @param profile - The profile name used in errors
+ * @param value - The raw value
+ * @returns The signing domain
+ */
+function parseSigningDomain(profile: string, value: unknown): SigningDomain {
+  if (value === undefined) {
+    return DEFAULT_SIGNING_DOMAIN;
+  }
+  if (typeof value !== "object" || value === null) {
+    throw new NetworkProfileError(`Invalid \`signingDomain\` in network profile ${profile}: expected an object`);
+  }
+
+  const fields = value as Record<string, unknown>;
+  const chainId = fields.chainId ?? DEFAULT_SIGNING_DOMAIN.chainId.toString();
+  if ((typeof chainId !== "string" && typeof chainId !== "number") || !/^\d+$/.test(String(chainId))) {
+    throw new NetworkProfileError(`Invalid \`signingDomain.chainId\` in network profile ${profile}: expected an integer`);
+  }
+  return {
+    collateralName: parseProfileString(profile, "signingDomain.collateralName", fields.collateralName ?? DEFAULT_SIGNING_DOMAIN.collateralName),
+    coordinatorName: parseProfileString(profile, "signingDomain.coordinatorName", fields.coordinatorName ?? DEFAULT_SIGNING_DOMAIN.coordinatorName),
+    version: parseProfileString(profile, "signingDomain.version", fields.version ?? DEFAULT_SIGNING_DOMAIN.version),
+    chainId: BigInt(chainId),
+  };
+}
+
+/**
+ * Parses one network profile
+ * @param name - The profile name
+ * @param value - The raw profile
+ * @returns The profile
+ */
+function parseNetworkProfile(name: string, value: unknown): NetworkProfile {
+  if (typeof value !== "object" || value === null) {
+    throw new NetworkProfileError(`Invalid network profile ${name}: expected an object`);
+  }
+
+  const fields = value as Record<string, unknown>;
+  const commitment = fields.commitment ?? "confirmed";
+  if (!COMMITMENTS.includes(commitment as Commitment)) {
+    throw new NetworkProfileError(`Invalid \`commitment\` in network profile ${name}: expected one of ${COMMITMENTS.join(", ")}`);
+  }
+  const coordinators = fields.coordinators ?? [];
+  if (!Array.isArray(coordinators)) {
+    throw new NetworkProfileError(`Invalid \`coordinators\` in network profile ${name}: expected an array`);
+  }
+
+  return {
+    name,
+    rpcUrl: parseProfileString(name, "rpcUrl", fields.rpcUrl),
+    wsUrl: fields.wsUrl === undefined ? undefined : parseProfileString(name, "wsUrl", fields.wsUrl),
+    commitment: commitment as Commitment,
+    programId: fields.programId === undefined ? undefined : parseProfileKey(name, "programId", fields.programId),
+    signingDomain: parseSigningDomain(name, fields.signingDomain),
+    coordinators: coordinators.map(coordinator => parseProfileKey(name, "coordinators", coordinator)),
+  };
+}
+
+/**
+ * Parses the network profiles, given as an object mapping each profile name to its settings
+ * @param value - The decoded JSON object
+ * @returns The profiles by name
+ *
+ * @throws NetworkProfileError naming the first invalid profile field
+ */
+export function parseNetworkProfiles(value: unknown): Map<string, NetworkProfile> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new NetworkProfileError("Invalid network profiles: expected an object mapping each profile name to its settings");
+  }
+  return new Map(Object.entries(value).map(([name, profile]) => [name, parseNetworkProfile(name, profile)]));
+}
+
+/**
+ * Reads the network profiles file
+ * @param file - The profiles file. Defaults to NETWORKS_FILE, or `networks.json`
+ * @returns The profiles by name
+ *
+ * @throws NetworkProfileError if the file is missing or invalid
+ */
+export function loadNetworkProfiles(file: string = process.env.NETWORKS_FILE ?? DEFAULT_NETWORKS_FILE): Map<string, NetworkProfile> {
+  if (!existsSync(file)) {
+    throw new NetworkProfileError(`Network profiles file ${file} not found`);
+  }
+  let value: unknown;
+  try {
+    value = JSON.parse(readFileSync(file, "utf-8"));
+  } catch (error) {
+    throw new NetworkProfileError(`Invalid network profiles file ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+  return parseNetworkProfiles(value);
+}
+
+/**
+ * Loads a network profile by name
+ * @param name - The profile name, e.g. `mainnet`, `devnet` or `localnet`
+ * @param file - The profiles file. Defaults to NETWORKS_FILE, or `networks.json`
+ * @returns The profile
+ *
+ * @throws NetworkProfileError if the profile does not exist
+ */
+export function loadNetworkProfile(name: string, file?: string): NetworkProfile {
+  const profiles = loadNetworkProfiles(file);
+  const profile = profiles.get(name);
+  if (!profile) {
+    throw new NetworkProfileError(`Unknown network profile ${name}. Available profiles: ${[...profiles.keys()].join(", ")}`);
+  }
+  return profile;
+}
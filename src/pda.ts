@@ -0,0 +1,88 @@
+import { PublicKey } from "@solana/web3.js";
+
+/**
+ * A program derived address and its bump
+ */
+export type DerivedAddress = {
+  address: PublicKey;
+  bump: number;
+}
+
+/**
+ * The constant seeds of each account type, as defined by the program.
+ *
+ * `Statement` is missing on purpose: the IDL only describes its seeds in the account docs
+ * (a statement seed, the hashed statement ID and the coordinator ID) without their values or
+ * the hash used, so its address cannot be derived reliably yet.
+ */
+export const PDA_SEEDS = {
+  collateral: Buffer.from("Collateral", "utf-8"),
+  collateralAuthority: Buffer.from("CollateralAuthority", "utf-8"),
+  collateralAdminSignatures: Buffer.from("CollateralAdminSignatures", "utf-8"),
+  coordinator: Buffer.from("Coordinator", "utf-8"),
+  supportedAsset: Buffer.from("Supported Asset", "utf-8"),
+};
+
+/**
+ * Finds the program derived address of the given seeds
+ * @param seeds - The seeds
+ * @param programId - The Main program ID
+ * @returns The address and its bump
+ */
+function derive(seeds: Buffer[], programId: PublicKey): DerivedAddress {
+  const [address, bump] = PublicKey.findProgramAddressSync(seeds, programId);
+  return { address, bump };
+}
+
+/**
+ * Derives the Collateral account of a coordinator
+ * @param id - The collateral ID given at creation
+ * @param coordinator - The coordinator account owning the collateral
+ * @param programId - The Main program ID
+ * @returns The Collateral address and its bump
+ */
+export function deriveCollateral(id: PublicKey, coordinator: PublicKey, programId: PublicKey): DerivedAddress {
+  return derive([PDA_SEEDS.collateral, id.toBuffer(), coordinator.toBuffer()], programId);
+}
+
+/**
+ * Derives the CollateralAuthority account, which owns the collateral assets
+ * @param collateral - The Collateral account
+ * @param programId - The Main program ID
+ * @returns The CollateralAuthority address and its bump
+ */
+export function deriveCollateralAuthority(collateral: PublicKey, programId: PublicKey): DerivedAddress {
+  return derive([PDA_SEEDS.collateralAuthority, collateral.toBuffer()], programId);
+}
+
+/**
+ * Derives the CollateralAdminSignatures account collecting the admin signatures of an action
+ * @param collateral - The Collateral account
+ * @param id - The 32-byte hash of the signed action message
+ * @param programId - The Main program ID
+ * @returns The CollateralAdminSignatures address and its bump
+ */
+export function deriveCollateralAdminSignatures(collateral: PublicKey, id: Buffer, programId: PublicKey): DerivedAddress {
+  return derive([PDA_SEEDS.collateralAdminSignatures, collateral.toBuffer(), id], programId);
+}
+
+/**
+ * Derives the Coordinator account
+ * @param id - The coordinator ID given at creation
+ * @param programId - The Main program ID
+ * @returns The Coordinator address and its bump
+ */
+export function deriveCoordinator(id: PublicKey, programId: PublicKey): DerivedAddress {
+  return derive([PDA_SEEDS.coordinator, id.toBuffer()], programId);
+}
+
+/**
+ * Derives the SupportedAsset account of a coordinator asset
+ * @param coordinator - The Coordinator account
+ * @param asset - The asset mint
+ * @param programId - The Main program ID
+ * @returns The SupportedAsset address and its bump
+ */
+export function deriveSupportedAsset(coordinator: PublicKey, asset: PublicKey, programId: PublicKey): DerivedAddress {
+  return derive([PDA_SEEDS.supportedAsset, coordinator.toBuffer(), asset.toBuffer()], programId);
+}
@@ -0,0 +1,83 @@
+import { AnchorProvider, Program, Provider } from "@coral-xyz/anchor";
+import { Commitment, Connection } from "@solana/web3.js";
+
+import MainIdl from "./idl/main.json";
+import { Main } from "./types/main";
+import { SignerProvider, toWallet } from "./signers";
+import { NetworkProfile } from "./networks";
+
+/**
+ * Initializes a Program instance over the given connection
+ * @param connection - The connection to the Solana network
+ * @param programAddress - The public key address of the deployed Solana program
+ * @param signer - The signer used to sign transactions. When omitted, the program is read-only
+ * @param commitment - The commitment of the transactions sent. Defaults to the Anchor one
+ * @returns A Program instance configured with the IDL and provider
+ */
+function createProgram(
+  connection: Connection,
+  programAddress: string,
+  signer?: SignerProvider,
+  commitment?: Commitment,
+): Program<Main> {
+  // Load the program's Interface Description Language (IDL) which defines
+  // the program's account structures and instruction interfaces
+  // Assign the program address to the IDL for proper program identification
+  const idl: any = { ...MainIdl, address: programAddress }
+
+  // Create a provider to interact with the Solana network using the specified RPC endpoint.
+  // With a signer, the AnchorProvider handles transaction signing and submission; without
+  // one, a connection-only provider is enough to fetch and decode accounts
+  const options = commitment
+    ? { ...AnchorProvider.defaultOptions(), commitment, preflightCommitment: commitment }
+    : AnchorProvider.defaultOptions()
+  const provider: Provider = signer
+    ? new AnchorProvider(connection, toWallet(signer), options)
+    : { connection };
+
+  // Create and return a Program instance that provides an interface to interact
+  // with the on-chain program using the IDL definition and provider connection
+  return new Program<Main>(idl, provider)
+}
+
+/**
+ * Initializes and returns a Program instance for interacting with the Rain Solana program.
+ *
+ * @param programAddress - The public key address of the deployed Solana program
+ * @param signer - The signer used to sign transactions. When omitted, the program is read-only
+ * @returns A Program instance configured with the IDL and provider
+ *
+ * @throws Error if SOLANA_RPC_URL is not set in environment variables
+ */
+export function getProgram(programAddress: string, signer?: SignerProvider): Program<Main> {
+  // Retrieve RPC URL from environment variables
+  const rpcUrl = process.env.SOLANA_RPC_URL
+  if (!rpcUrl) {
+    throw new Error("No RPC URL provided");
+  }
+
+  // Create a connection to the Solana network with 'confirmed' commitment level
+  // This ensures we wait for transaction confirmation before proceeding
+  const connection = new Connection(rpcUrl, { commitment: 'confirmed' })
+  return createProgram(connection, programAddress, signer)
+}
+
+/**
+ * Initializes a Program instance for the cluster and deployment of a network profile
+ *
+ * @param profile - The network profile
+ * @param signer - The signer used to sign transactions. When omitted, the program is read-only
+ * @param programAddress - Overrides the program address of the profile
+ * @returns A Program instance configured with the IDL and provider
+ *
+ * @throws Error if neither the profile nor the override gives a program address
+ */
+export function getNetworkProgram(profile: NetworkProfile, signer?: SignerProvider, programAddress?: string): Program<Main> {
+  const address = programAddress ?? profile.programId?.toBase58()
+  if (!address) {
+    throw new Error(`The network profile ${profile.name} has no program ID. Use --program or set PROGRAM_ADDRESS`);
+  }
+
+  const connection = new Connection(profile.rpcUrl, { commitment: profile.commitment, wsEndpoint: profile.wsUrl })
+  return createProgram(connection, address, signer, profile.commitment)
+}
@@ -0,0 +1,4 @@
+export { SignerProvider, KeypairSigner, signTransaction, toWallet } from "./signerProvider";
+export { Keystore, KeystoreFormatError, encryptKeystore, decryptKeystore, loadKeystoreSigner } from "./keystore";
+export { RemoteSigner } from "./remoteSigner";
+export { MockRemoteSigner, startMockRemoteSigner } from "./mockRemoteSigner";
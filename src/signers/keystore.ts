@@ -0,0 +1,230 @@
+import { readFileSync } from "fs";
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+import { Keypair, PublicKey } from "@solana/web3.js";
+
+import { KeypairSigner } from "./signerProvider";
+
+const KEYSTORE_VERSION = 1;
+const KEY_SIZE = 32;
+const IV_SIZE = 12;
+const TAG_SIZE = 16;
+const SECRET_KEY_SIZE = 64;
+const SCRYPT_PARAMS = { n: 2 ** 15, r: 8, p: 1 };
+
+/**
+ * An encrypted keystore file. The secret key is encrypted with AES-256-GCM using a key derived
+ * from the passphrase with scrypt. All binary values are hex-encoded.
+ */
+export type Keystore = {
+  version: number;
+  publicKey: string;
+  kdf: "scrypt";
+  kdfParams: { n: number; r: number; p: number; salt: string };
+  cipher: "aes-256-gcm";
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+/**
+ * Error thrown when a keystore file is not valid JSON or misses a field of the keystore format
+ */
+export class KeystoreFormatError extends Error {
+  constructor(readonly path: string, message: string) {
+    super(`Invalid keystore ${path}: ${message}`);
+    this.name = "KeystoreFormatError";
+  }
+}
+
+/**
+ * Derives the encryption key from the passphrase
+ * @param passphrase - The keystore passphrase
+ * @param params - The scrypt parameters
+ * @returns The encryption key
+ */
+function deriveKey(passphrase: string, params: Keystore["kdfParams"]): Buffer {
+  return scryptSync(passphrase, Buffer.from(params.salt, "hex"), KEY_SIZE, {
+    N: params.n,
+    r: params.r,
+    p: params.p,
+    maxmem: 256 * params.n * params.r,
+  });
+}
+
+/**
+ * Encrypts a keypair into a keystore
+ * @param keypair - The keypair to encrypt
+ * @param passphrase - The passphrase protecting the keystore
+ * @returns The keystore, ready to be written as JSON
+ */
+export function encryptKeystore(keypair: Keypair, passphrase: string): Keystore {
+  if (!passphrase) {
+    throw new Error("The keystore passphrase must not be empty");
+  }
+
+  const kdfParams = { ...SCRYPT_PARAMS, salt: randomBytes(32).toString("hex") };
+  const iv = randomBytes(IV_SIZE);
+  const cipher = createCipheriv("aes-256-gcm", deriveKey(passphrase, kdfParams), iv);
+  const ciphertext = Buffer.concat([cipher.update(keypair.secretKey), cipher.final()]);
+
+  return {
+    version: KEYSTORE_VERSION,
+    publicKey: keypair.publicKey.toBase58(),
+    kdf: "scrypt",
+    kdfParams,
+    cipher: "aes-256-gcm",
+    iv: iv.toString("hex"),
+    tag: cipher.getAuthTag().toString("hex"),
+    ciphertext: ciphertext.toString("hex"),
+  };
+}
+
+/**
+ * Decrypts the keypair stored in a keystore
+ * @param keystore - The keystore
+ * @param passphrase - The passphrase protecting the keystore
+ * @returns The decrypted keypair
+ *
+ * @throws Error if the passphrase is wrong or the keystore is corrupted
+ */
+export function decryptKeystore(keystore: Keystore, passphrase: string): Keypair {
+  if (keystore.version !== KEYSTORE_VERSION || keystore.kdf !== "scrypt" || keystore.cipher !== "aes-256-gcm") {
+    throw new Error("Unsupported keystore format");
+  }
+
+  let secretKey: Buffer;
+  try {
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      deriveKey(passphrase, keystore.kdfParams),
+      Buffer.from(keystore.iv, "hex")
+    );
+    decipher.setAuthTag(Buffer.from(keystore.tag, "hex"));
+    secretKey = Buffer.concat([decipher.update(Buffer.from(keystore.ciphertext, "hex")), decipher.final()]);
+  } catch {
+    throw new Error("Failed to decrypt keystore: wrong passphrase or corrupted file");
+  }
+
+  const keypair = Keypair.fromSecretKey(secretKey);
+  if (!keypair.publicKey.equals(new PublicKey(keystore.publicKey))) {
+    throw new Error("The keystore secret key does not match its public key");
+  }
+  return keypair;
+}
+
+/**
+ * Parses a hex-encoded field of a keystore
+ * @param path - The keystore file path used in errors
+ * @param field - The field name used in errors
+ * @param value - The raw value
+ * @param size - The expected size in bytes, any non-zero size when not set
+ * @returns The hex string
+ */
+function parseKeystoreHex(path: string, field: string, value: unknown, size?: number): string {
+  if (typeof value !== "string" || !/^([0-9a-fA-F]{2})+$/.test(value) || (size !== undefined && value.length !== size * 2)) {
+    const expected = size === undefined ? "a hex string" : `a hex string of ${size} bytes`;
+    throw new KeystoreFormatError(path, `\`${field}\` must be ${expected}`);
+  }
+  return value;
+}
+
+/**
+ * Parses the base58 public key of a keystore
+ * @param path - The keystore file path used in errors
+ * @param value - The raw value
+ * @returns The public key
+ */
+function parseKeystoreKey(path: string, value: unknown): PublicKey {
+  try {
+    if (typeof value !== "string") {
+      throw new Error();
+    }
+    return new PublicKey(value);
+  } catch {
+    throw new KeystoreFormatError(path, "`publicKey` must be a base58 public key");
+  }
+}
+
+/**
+ * Parses a scrypt parameter of a keystore
+ * @param path - The keystore file path used in errors
+ * @param field - The field name used in errors
+ * @param value - The raw value
+ * @returns The parameter
+ */
+function parseKdfParam(path: string, field: string, value: unknown): number {
+  if (typeof value !== "number" || !Number.isSafeInteger(value) || value < 1) {
+    throw new KeystoreFormatError(path, `\`${field}\` must be a positive integer`);
+  }
+  return value;
+}
+
+/**
+ * Parses the decoded JSON of a keystore file
+ * @param path - The keystore file path used in errors
+ * @param value - The decoded JSON
+ * @returns The keystore
+ *
+ * @throws KeystoreFormatError naming the first invalid field
+ */
+function parseKeystore(path: string, value: unknown): Keystore {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new KeystoreFormatError(path, "expected a JSON object");
+  }
+
+  const fields = value as Record<string, unknown>;
+  if (fields.version !== KEYSTORE_VERSION) {
+    throw new KeystoreFormatError(path, `unsupported \`version\` ${String(fields.version)}, expected ${KEYSTORE_VERSION}`);
+  }
+  if (fields.kdf !== "scrypt") {
+    throw new KeystoreFormatError(path, "`kdf` must be \"scrypt\"");
+  }
+  if (fields.cipher !== "aes-256-gcm") {
+    throw new KeystoreFormatError(path, "`cipher` must be \"aes-256-gcm\"");
+  }
+  if (typeof fields.kdfParams !== "object" || fields.kdfParams === null) {
+    throw new KeystoreFormatError(path, "`kdfParams` must be an object");
+  }
+
+  const kdfParams = fields.kdfParams as Record<string, unknown>;
+  const n = parseKdfParam(path, "kdfParams.n", kdfParams.n);
+  if (n < 2 || (n & (n - 1)) !== 0) {
+    throw new KeystoreFormatError(path, "`kdfParams.n` must be a power of two");
+  }
+  return {
+    version: KEYSTORE_VERSION,
+    publicKey: parseKeystoreKey(path, fields.publicKey).toBase58(),
+    kdf: "scrypt",
+    kdfParams: {
+      n,
+      r: parseKdfParam(path, "kdfParams.r", kdfParams.r),
+      p: parseKdfParam(path, "kdfParams.p", kdfParams.p),
+      salt: parseKeystoreHex(path, "kdfParams.salt", kdfParams.salt),
+    },
+    cipher: "aes-256-gcm",
+    iv: parseKeystoreHex(path, "iv", fields.iv, IV_SIZE),
+    tag: parseKeystoreHex(path, "tag", fields.tag, TAG_SIZE),
+    ciphertext: parseKeystoreHex(path, "ciphertext", fields.ciphertext, SECRET_KEY_SIZE),
+  };
+}
+
+/**
+ * Loads a signer from an encrypted keystore file
+ * @param path - The path of the keystore file
+ * @param passphrase - The passphrase protecting the keystore
+ * @returns The signer
+ *
+ * @throws KeystoreFormatError if the file is not a valid keystore
+ */
+export function loadKeystoreSigner(path: string, passphrase: string): KeypairSigner {
+  let value: unknown;
+  try {
+    value = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new KeystoreFormatError(path, `not valid JSON: ${error.message}`);
+    }
+    throw error;
+  }
+  return new KeypairSigner(decryptKeystore(parseKeystore(path, value), passphrase));
+}
@@ -0,0 +1,57 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { Keypair } from "@solana/web3.js";
+import nacl from "tweetnacl";
+
+export type MockRemoteSigner = {
+  url: string;
+  close: () => Promise<void>;
+}
+
+/**
+ * Starts a local HTTP server implementing the remote signer protocol with the given keypair.
+ * It is meant to stand in for a real remote signer during development, never in production.
+ * @param keypair - The keypair used to sign
+ * @param port - The port to listen on. Defaults to a random free port
+ * @returns The URL of the server and a function to stop it
+ */
+export function startMockRemoteSigner(keypair: Keypair, port = 0): Promise<MockRemoteSigner> {
+  const server = http.createServer((request, response) => {
+    const reply = (status: number, body: unknown) => {
+      response.writeHead(status, { "content-type": "application/json" });
+      response.end(JSON.stringify(body));
+    };
+
+    if (request.method === "GET" && request.url === "/public-key") {
+      reply(200, { publicKey: keypair.publicKey.toBase58() });
+      return;
+    }
+    if (request.method !== "POST" || request.url !== "/sign") {
+      reply(404, { error: "Not found" });
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    request.on("data", (chunk: Buffer) => chunks.push(chunk));
+    request.on("end", () => {
+      try {
+        const { message } = JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+        const signature = nacl.sign.detached(Buffer.from(message, "base64"), keypair.secretKey);
+        reply(200, { signature: Buffer.from(signature).toString("base64") });
+      } catch {
+        reply(400, { error: "Invalid sign request" });
+      }
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.on("error", reject);
+    server.listen(port, "127.0.0.1", () => {
+      const { port: boundPort } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${boundPort}`,
+        close: () => new Promise(done => server.close(() => done())),
+      });
+    });
+  });
+}
@@ -0,0 +1,122 @@
+import http from "http";
+import https from "https";
+import { PublicKey } from "@solana/web3.js";
+import nacl from "tweetnacl";
+
+import { SignerProvider } from "./signerProvider";
+
+/**
+ * How long a request to the remote signer may take before it is aborted, in milliseconds
+ */
+export const REMOTE_SIGNER_TIMEOUT_MS = 30_000;
+
+/**
+ * Sends a JSON request to the remote signer
+ * @param url - The endpoint URL
+ * @param timeoutMs - How long the request may take before it is aborted, in milliseconds
+ * @param body - The JSON body. When omitted, a GET request is sent
+ * @param token - The bearer token, if the signer requires one
+ * @returns The decoded JSON response
+ */
+function requestJson(url: URL, timeoutMs: number, body?: unknown, token?: string): Promise<unknown> {
+  const payload = body === undefined ? undefined : JSON.stringify(body);
+  const headers: Record<string, string> = { accept: "application/json" };
+  if (payload !== undefined) {
+    headers["content-type"] = "application/json";
+    headers["content-length"] = String(Buffer.byteLength(payload));
+  }
+  if (token) {
+    headers.authorization = `Bearer ${token}`;
+  }
+
+  const transport = url.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = transport.request(url, { method: payload === undefined ? "GET" : "POST", headers }, response => {
+      const chunks: Buffer[] = [];
+      response.on("data", (chunk: Buffer) => chunks.push(chunk));
+      response.on("end", () => {
+        const text = Buffer.concat(chunks).toString("utf-8");
+        if (!response.statusCode || response.statusCode >= 400) {
+          reject(new Error(`Remote signer responded ${response.statusCode} to ${url.pathname}`));
+          return;
+        }
+        try {
+          resolve(JSON.parse(text));
+        } catch {
+          reject(new Error(`Remote signer returned invalid JSON from ${url.pathname}`));
+        }
+      });
+    });
+    request.setTimeout(timeoutMs, () => {
+      request.destroy(new Error(`Remote signer did not respond to ${url.pathname} within ${timeoutMs} ms`));
+    });
+    request.on("error", reject);
+    request.end(payload);
+  });
+}
+
+/**
+ * Reads a string field of a remote signer response
+ * @param response - The decoded JSON response
+ * @param field - The field name
+ * @returns The string, or undefined when the response has no such string field
+ */
+function getStringField(response: unknown, field: string): string | undefined {
+  if (typeof response !== "object" || response === null) {
+    return undefined;
+  }
+  const value = (response as Record<string, unknown>)[field];
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * A signer that delegates signing to a remote service over HTTP. The service must implement:
+ * - `GET /public-key` returning `{ "publicKey": "<base58>" }`
+ * - `POST /sign` with `{ "message": "<base64>" }` returning `{ "signature": "<base64>" }`
+ *
+ * Every returned signature is verified against the public key before being used.
+ */
+export class RemoteSigner implements SignerProvider {
+  private constructor(
+    private readonly baseUrl: URL,
+    readonly publicKey: PublicKey,
+    private readonly token?: string,
+    private readonly timeoutMs: number = REMOTE_SIGNER_TIMEOUT_MS,
+  ) {}
+
+  /**
+   * Connects to a remote signer and fetches its public key
+   * @param url - The base URL of the remote signer
+   * @param token - The bearer token, if the signer requires one
+   * @param timeoutMs - How long each request may take before it is aborted, in milliseconds
+   * @returns The remote signer
+   */
+  static async connect(url: string, token?: string, timeoutMs: number = REMOTE_SIGNER_TIMEOUT_MS): Promise<RemoteSigner> {
+    const baseUrl = new URL(url.endsWith("/") ? url : `${url}/`);
+    const response = await requestJson(new URL("public-key", baseUrl), timeoutMs, undefined, token);
+    const publicKey = getStringField(response, "publicKey");
+    if (publicKey === undefined) {
+      throw new Error("Remote signer did not return a public key");
+    }
+    return new RemoteSigner(baseUrl, new PublicKey(publicKey), token, timeoutMs);
+  }
+
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    const response = await requestJson(
+      new URL("sign", this.baseUrl),
+      this.timeoutMs,
+      { message: Buffer.from(message).toString("base64") },
+      this.token
+    );
+    const encodedSignature = getStringField(response, "signature");
+    if (encodedSignature === undefined) {
+      throw new Error("Remote signer did not return a signature");
+    }
+
+    const signature = Buffer.from(encodedSignature, "base64");
+    if (signature.length !== nacl.sign.signatureLength || !nacl.sign.detached.verify(message, signature, this.publicKey.toBytes())) {
+      throw new Error("Remote signer returned an invalid signature");
+    }
+    return signature;
+  }
+}
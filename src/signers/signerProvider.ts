@@ -0,0 +1,96 @@
+import { Keypair, PublicKey, Transaction, VersionedTransaction } from "@solana/web3.js";
+import { Wallet } from "@coral-xyz/anchor/dist/cjs/provider";
+import nacl from "tweetnacl";
+
+import { MnemonicOptions, deriveKeypairFromMnemonic, readKeypairFile } from "../keypair";
+
+/**
+ * A source of ed25519 signatures for a single account. Implementations never expose the secret
+ * key, so the same flows work with local keys and remote signers.
+ */
+export interface SignerProvider {
+  /**
+   * The public key of the signer
+   */
+  readonly publicKey: PublicKey;
+
+  /**
+   * Signs the given message
+   * @param message - The message to sign
+   * @returns The 64-byte detached ed25519 signature
+   */
+  signMessage(message: Uint8Array): Promise<Uint8Array>;
+}
+
+/**
+ * A signer backed by a keypair held in memory
+ */
+export class KeypairSigner implements SignerProvider {
+  constructor(private readonly keypair: Keypair) {}
+
+  /**
+   * Loads a signer from a Solana CLI keypair file
+   * @param path - The path of the keypair JSON file
+   * @returns The signer
+   */
+  static fromKeypairFile(path: string): KeypairSigner {
+    return new KeypairSigner(readKeypairFile(path));
+  }
+
+  /**
+   * Derives a signer from a BIP39 mnemonic phrase
+   * @param mnemonic - The mnemonic phrase
+   * @param options - The derivation path and account index
+   * @returns The signer
+   */
+  static fromMnemonic(mnemonic: string, options: MnemonicOptions = {}): KeypairSigner {
+    return new KeypairSigner(deriveKeypairFromMnemonic(mnemonic, options));
+  }
+
+  get publicKey(): PublicKey {
+    return this.keypair.publicKey;
+  }
+
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    return nacl.sign.detached(message, this.keypair.secretKey);
+  }
+}
+
+/**
+ * Signs a transaction with the given signer. The transaction must already have its fee payer
+ * and recent blockhash set.
+ * @param signer - The signer
+ * @param transaction - The transaction to sign
+ * @returns The same transaction with the signer's signature added
+ */
+export async function signTransaction<T extends Transaction | VersionedTransaction>(
+  signer: SignerProvider,
+  transaction: T,
+): Promise<T> {
+  if (transaction instanceof VersionedTransaction) {
+    const signature = await signer.signMessage(transaction.message.serialize());
+    transaction.addSignature(signer.publicKey, signature);
+  } else {
+    const signature = await signer.signMessage(transaction.serializeMessage());
+    transaction.addSignature(signer.publicKey, Buffer.from(signature));
+  }
+  return transaction;
+}
+
+/**
+ * Adapts a signer to the Anchor wallet interface
+ * @param signer - The signer
+ * @returns The Anchor wallet
+ */
+export function toWallet(signer: SignerProvider): Wallet {
+  return {
+    publicKey: signer.publicKey,
+    signTransaction: transaction => signTransaction(signer, transaction),
+    async signAllTransactions(transactions) {
+      for (const transaction of transactions) {
+        await signTransaction(signer, transaction);
+      }
+      return transactions;
+    },
+  };
+}
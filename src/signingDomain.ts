@@ -0,0 +1,22 @@
+/**
+ * The EIP-712-style signing domain of a program deployment. The program rejects signatures made
+ * for another domain.
+ */
+export type SigningDomain = {
+  /** The domain name of the collateral admin messages */
+  collateralName: string;
+  /** The domain name of the coordinator messages */
+  coordinatorName: string;
+  version: string;
+  chainId: bigint;
+}
+
+/**
+ * The signing domain of the mainnet deployment
+ */
+export const DEFAULT_SIGNING_DOMAIN: SigningDomain = {
+  collateralName: "Collateral",
+  coordinatorName: "Coordinator",
+  version: "2",
+  chainId: 900n,
+};
@@ -0,0 +1,236 @@
+import { AnchorError, EventParser, Program } from "@coral-xyz/anchor";
+import {
+  AccountInfo,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { unpackAccount } from "@solana/spl-token";
+
+import { Main } from "./types/main";
+
+/**
+ * An account referenced by a simulated transaction
+ */
+export type SimulatedAccount = {
+  address: PublicKey;
+  writable: boolean;
+  signer: boolean;
+}
+
+/**
+ * The change of a token account balance caused by a simulated transaction
+ */
+export type TokenBalanceChange = {
+  account: PublicKey;
+  mint: PublicKey;
+  owner: PublicKey;
+  before: bigint;
+  after: bigint;
+  delta: bigint;
+}
+
+/**
+ * The change of an account SOL balance caused by a simulated transaction, in lamports
+ */
+export type LamportBalanceChange = {
+  account: PublicKey;
+  before: bigint;
+  after: bigint;
+  delta: bigint;
+}
+
+/**
+ * The outcome of simulating a transaction
+ */
+export type SimulationReport = {
+  /** A short description of the simulated transaction */
+  label: string;
+  /** A caveat about how the simulation differs from the real execution */
+  note?: string;
+  success: boolean;
+  /** The decoded Anchor error, or the raw transaction error */
+  error?: string;
+  logs: string[];
+  /** The names of the program events emitted */
+  events: string[];
+  unitsConsumed?: number;
+  accounts: SimulatedAccount[];
+  tokenBalanceChanges: TokenBalanceChange[];
+  lamportBalanceChanges: LamportBalanceChange[];
+}
+
+/**
+ * Reads the token amount of an account, if it is a token account
+ * @param address - The account address
+ * @param info - The account info
+ * @returns The token account, or null if the account is not a token account
+ */
+function readTokenAccount(address: PublicKey, info: AccountInfo<Buffer> | null) {
+  if (!info) {
+    return null;
+  }
+  try {
+    return unpackAccount(address, info, info.owner);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Simulates the given instructions as a single transaction without sending it. The transaction
+ * signatures are not verified, so it can be simulated before it is signed.
+ * @param program - The Main program
+ * @param label - A short description of the transaction used in the report
+ * @param instructions - The instructions of the transaction
+ * @param payer - The fee payer of the transaction
+ * @returns The simulation report
+ */
+export async function simulateInstructions(
+  program: Program<Main>,
+  label: string,
+  instructions: TransactionInstruction[],
+  payer: PublicKey,
+): Promise<SimulationReport> {
+  const connection = program.provider.connection;
+  const { blockhash } = await connection.getLatestBlockhash('confirmed');
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: blockhash,
+    instructions,
+  }).compileToLegacyMessage();
+
+  const accounts: SimulatedAccount[] = message.accountKeys.map((address, index) => ({
+    address,
+    writable: message.isAccountWritable(index),
+    signer: message.isAccountSigner(index),
+  }));
+  const writableAddresses = accounts.filter(account => account.writable).map(account => account.address);
+
+  // Read the writable accounts before and after the simulation to compute the balance deltas
+  const before = await connection.getMultipleAccountsInfo(writableAddresses, 'confirmed');
+  const { value } = await connection.simulateTransaction(new VersionedTransaction(message), {
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+    commitment: 'confirmed',
+    accounts: { encoding: 'base64', addresses: writableAddresses.map(address => address.toBase58()) },
+  });
+
+  const tokenBalanceChanges: TokenBalanceChange[] = [];
+  const lamportBalanceChanges: LamportBalanceChange[] = [];
+  writableAddresses.forEach((address, index) => {
+    const simulated = value.accounts?.[index];
+    const after = simulated
+      ? { ...simulated, owner: new PublicKey(simulated.owner), data: Buffer.from(simulated.data[0], 'base64') }
+      : null;
+
+    // A failed simulation returns no account state at all
+    const lamportsBefore = BigInt(before[index]?.lamports ?? 0);
+    const lamportsAfter = BigInt(after?.lamports ?? 0);
+    if (value.accounts && lamportsBefore !== lamportsAfter) {
+      lamportBalanceChanges.push({
+        account: address,
+        before: lamportsBefore,
+        after: lamportsAfter,
+        delta: lamportsAfter - lamportsBefore,
+      });
+    }
+
+    const previous = readTokenAccount(address, before[index]);
+    const next = readTokenAccount(address, after);
+    const tokenAccount = next ?? previous;
+    if (!tokenAccount) {
+      return;
+    }
+
+    const beforeAmount = previous?.amount ?? 0n;
+    const afterAmount = next?.amount ?? 0n;
+    if (beforeAmount !== afterAmount) {
+      tokenBalanceChanges.push({
+        account: address,
+        mint: tokenAccount.mint,
+        owner: tokenAccount.owner,
+        before: beforeAmount,
+        after: afterAmount,
+        delta: afterAmount - beforeAmount,
+      });
+    }
+  });
+
+  const logs = value.logs ?? [];
+  const events: string[] = [];
+  try {
+    for (const event of new EventParser(program.programId, program.coder).parseLogs(logs)) {
+      events.push(event.name);
+    }
+  } catch {
+    // Events are informative only, an undecodable log must not hide the simulation result
+  }
+
+  let error: string | undefined;
+  if (value.err) {
+    const anchorError = AnchorError.parse(logs);
+    error = anchorError
+      ? `${anchorError.error.errorCode.code} (${anchorError.error.errorCode.number}): ${anchorError.error.errorMessage}`
+      : JSON.stringify(value.err);
+  }
+
+  return {
+    label,
+    success: !value.err,
+    error,
+    logs,
+    events,
+    unitsConsumed: value.unitsConsumed,
+    accounts,
+    tokenBalanceChanges,
+    lamportBalanceChanges,
+  };
+}
+
+/**
+ * Formats a simulation report as human-readable text
+ * @param report - The simulation report
+ * @returns The formatted report
+ */
+export function formatSimulationReport(report: SimulationReport): string {
+  const lines = [
+    `${report.label}: ${report.success ? "would succeed" : "would fail"}`,
+  ];
+  if (report.note) {
+    lines.push(`  Note: ${report.note}`);
+  }
+  if (report.error) {
+    lines.push(`  Error: ${report.error}`);
+  }
+  if (report.unitsConsumed !== undefined) {
+    lines.push(`  Compute units: ${report.unitsConsumed}`);
+  }
+  lines.push("  Accounts:");
+  for (const account of report.accounts) {
+    const flags = [account.writable ? "writable" : "", account.signer ? "signer" : ""].filter(Boolean).join(", ");
+    lines.push(`    ${account.address.toBase58()}${flags ? ` (${flags})` : ""}`);
+  }
+  if (report.tokenBalanceChanges.length > 0) {
+    lines.push("  Token balance changes:");
+    for (const change of report.tokenBalanceChanges) {
+      const sign = change.delta > 0n ? "+" : "";
+      lines.push(`    ${change.account.toBase58()} (owner ${change.owner.toBase58()}): ${change.before} -> ${change.after} (${sign}${change.delta})`);
+    }
+  }
+  if (report.lamportBalanceChanges.length > 0) {
+    lines.push("  SOL balance changes (lamports):");
+    for (const change of report.lamportBalanceChanges) {
+      const sign = change.delta > 0n ? "+" : "";
+      lines.push(`    ${change.account.toBase58()}: ${change.before} -> ${change.after} (${sign}${change.delta})`);
+    }
+  }
+  if (report.events.length > 0) {
+    lines.push(`  Events: ${report.events.join(", ")}`);
+  }
+  if (!report.success && report.logs.length > 0) {
+    lines.push("  Logs:", ...report.logs.map(log => `    ${log}`));
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,92 @@
+import { Program } from "@coral-xyz/anchor";
+import {
+  Mint,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  unpackMint,
+} from "@solana/spl-token";
+import { Connection, PublicKey } from "@solana/web3.js";
+
+import { Main } from "./types/main";
+
+/**
+ * A token mint along with the token program owning it, either the legacy token program or
+ * Token-2022
+ */
+export type AssetMint = {
+  address: PublicKey;
+  tokenProgram: PublicKey;
+  mint: Mint;
+}
+
+/**
+ * The asset of a native SOL withdrawal, the default key. The collateral authority holds the
+ * lamports itself, so no token account is involved.
+ */
+export const NATIVE_ASSET = PublicKey.default;
+
+/**
+ * Tells whether the asset is native SOL
+ * @param asset - The asset of the withdrawal
+ * @returns Whether the asset is the default key
+ */
+export function isNativeAsset(asset: PublicKey): boolean {
+  return asset.equals(NATIVE_ASSET);
+}
+
+/**
+ * Error thrown when the program does not accept the token program of the withdrawn mint
+ */
+export class UnsupportedTokenProgramError extends Error {
+  constructor(readonly mint: PublicKey, readonly tokenProgram: PublicKey, readonly supported: PublicKey) {
+    super(
+      `The mint ${mint.toBase58()} belongs to the token program ${tokenProgram.toBase58()}, but the program only withdraws assets of ${supported.toBase58()}`
+    );
+    this.name = "UnsupportedTokenProgramError";
+  }
+}
+
+/**
+ * Fetches a mint and the token program owning it
+ * @param connection - The connection to the Solana network
+ * @param address - The mint address
+ * @returns The mint and its token program
+ *
+ * @throws Error if the account does not exist or is not a mint of a known token program
+ */
+export async function fetchAssetMint(connection: Connection, address: PublicKey): Promise<AssetMint> {
+  const info = await connection.getAccountInfo(address);
+  if (!info) {
+    throw new Error(`Mint ${address.toBase58()} not found`);
+  }
+  if (!info.owner.equals(TOKEN_PROGRAM_ID) && !info.owner.equals(TOKEN_2022_PROGRAM_ID)) {
+    throw new Error(`Account ${address.toBase58()} is not a token mint: it is owned by ${info.owner.toBase58()}`);
+  }
+  return { address, tokenProgram: info.owner, mint: unpackMint(address, info, info.owner) };
+}
+
+/**
+ * Gets the token program the withdraw instruction is pinned to in the program IDL, if any
+ * @param program - The Main program
+ * @returns The token program address, or null when the IDL accepts any token program
+ */
+export function getWithdrawTokenProgram(program: Program<Main>): PublicKey | null {
+  const instruction = program.idl.instructions.find(instruction => instruction.name === "withdrawCollateralAsset");
+  const account = instruction?.accounts.find(account => account.name === "tokenProgram");
+  return account && "address" in account ? new PublicKey(account.address) : null;
+}
+
+/**
+ * Checks the program accepts the token program of the mint, as the withdrawal would otherwise
+ * only fail on-chain after the admin signatures were submitted
+ * @param program - The Main program
+ * @param assetMint - The withdrawn mint
+ *
+ * @throws UnsupportedTokenProgramError if the withdraw instruction is pinned to another token program
+ */
+export function assertTokenProgramSupported(program: Program<Main>, assetMint: AssetMint): void {
+  const supported = getWithdrawTokenProgram(program);
+  if (supported && !supported.equals(assetMint.tokenProgram)) {
+    throw new UnsupportedTokenProgramError(assetMint.address, assetMint.tokenProgram, supported);
+  }
+}
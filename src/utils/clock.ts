@@ -0,0 +1,21 @@
+import { Commitment, Connection, SYSVAR_CLOCK_PUBKEY } from '@solana/web3.js';
+
+/**
+ * The offset of `unix_timestamp` in the Clock sysvar, after `slot`, `epoch_start_timestamp`,
+ * `epoch` and `leader_schedule_epoch`
+ */
+const UNIX_TIMESTAMP_OFFSET = 32;
+
+/**
+ * Reads the cluster time from the Clock sysvar, which is the time the programs see on-chain
+ * @param connection - The connection to the Solana network
+ * @param commitment - The commitment level of the read
+ * @returns The cluster unix timestamp in seconds
+ */
+export async function getClusterTime(connection: Connection, commitment: Commitment = 'confirmed'): Promise<number> {
+  const clock = await connection.getAccountInfo(SYSVAR_CLOCK_PUBKEY, commitment);
+  if (!clock) {
+    throw new Error('Failed to read the Clock sysvar');
+  }
+  return Number(clock.data.readBigInt64LE(UNIX_TIMESTAMP_OFFSET));
+}
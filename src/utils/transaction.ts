@@ -0,0 +1,59 @@
+import {
+  ConfirmOptions,
+  Connection,
+  PublicKey,
+  SIGNATURE_LENGTH_IN_BYTES,
+  Transaction,
+  TransactionMessage,
+} from "@solana/web3.js";
+
+import { SignerProvider, signTransaction } from "../signers";
+
+/**
+ * Signs, sends and confirms a transaction paid and signed by the given signer
+ * @param connection - The connection to the Solana network
+ * @param transaction - The transaction to send
+ * @param signer - The fee payer and only signer of the transaction
+ * @param options - The send and confirmation options
+ * @returns The transaction signature
+ *
+ * @throws Error if the transaction fails
+ */
+export async function sendAndConfirmWithSigner(
+  connection: Connection,
+  transaction: Transaction,
+  signer: SignerProvider,
+  options: ConfirmOptions = { commitment: 'confirmed' },
+): Promise<string> {
+  const commitment = options.commitment ?? 'confirmed';
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash(commitment);
+  transaction.feePayer = signer.publicKey;
+  transaction.recentBlockhash = blockhash;
+  await signTransaction(signer, transaction);
+
+  const signature = await connection.sendRawTransaction(transaction.serialize(), options);
+  const { value } = await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, commitment);
+  if (value.err) {
+    throw new Error(`Transaction ${signature} failed: ${JSON.stringify(value.err)}`);
+  }
+  return signature;
+}
+
+/**
+ * Computes the size of a transaction once signed and serialized, to compare with the
+ * `PACKET_DATA_SIZE` limit before sending it. The blockhash does not change the size, so a
+ * placeholder is used when the transaction has none yet.
+ * @param transaction - The transaction
+ * @param feePayer - The fee payer of the transaction
+ * @returns The size in bytes
+ */
+export function getSignedTransactionSize(transaction: Transaction, feePayer: PublicKey): number {
+  const message = new TransactionMessage({
+    payerKey: feePayer,
+    recentBlockhash: transaction.recentBlockhash ?? PublicKey.default.toBase58(),
+    instructions: transaction.instructions,
+  }).compileToLegacyMessage();
+  const signatureCount = message.header.numRequiredSignatures;
+  // The signature count is a compact-u16, a single byte below 128 signatures
+  return 1 + signatureCount * SIGNATURE_LENGTH_IN_BYTES + message.serialize().length;
+}
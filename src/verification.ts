@@ -0,0 +1,261 @@
+import { BN, Program } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import nacl from "tweetnacl";
+
+import { Main } from "./types/main";
+import { MAX_TOKEN_AMOUNT } from "./amount";
+import { Coordinator } from "./coordinator";
+import { DEFAULT_SIGNING_DOMAIN, SigningDomain } from "./signingDomain";
+
+type WithdrawCollateral = {
+    amountOfAsset: BN;
+    signatureExpirationTime: BN;
+    coordinatorSignatureSalt: number[];
+}
+
+/**
+ * The fields of the coordinator withdraw message
+ */
+export type CoordinatorMessageFields = {
+    collateral: PublicKey;
+    coordinator: PublicKey;
+    sender: PublicKey;
+    receiver: PublicKey;
+    asset: PublicKey;
+    withdrawRequest: WithdrawCollateral;
+    adminFundsNonce: number;
+}
+
+/**
+ * The result of verifying a coordinator signature
+ */
+export type CoordinatorSignatureVerification = {
+    valid: boolean;
+    /** The executor whose key produced the signature, when valid */
+    executor?: PublicKey;
+    /** The likely causes of an invalid signature */
+    diagnosis: string[];
+}
+
+/**
+ * Error thrown when the coordinator signature does not verify against any executor
+ */
+export class CoordinatorSignatureError extends Error {
+    constructor(readonly diagnosis: string[]) {
+        super([
+            "The coordinator signature does not match any coordinator executor.",
+            ...(diagnosis.length > 0
+                ? diagnosis.map(cause => `- ${cause}`)
+                : ["- No known cause matched. Request a new signature and check the withdrawal parameters."]),
+        ].join("\n"));
+        this.name = "CoordinatorSignatureError";
+    }
+}
+
+/**
+ * Error thrown when the executor named by the withdrawal signature is not a coordinator executor
+ */
+export class UnknownExecutorError extends Error {
+    constructor(readonly executor: PublicKey, readonly coordinator: PublicKey) {
+        super(`${executor.toBase58()} is not an executor of coordinator ${coordinator.toBase58()}`);
+        this.name = "UnknownExecutorError";
+    }
+}
+
+/**
+ * The number of nonces before and after the current one checked when diagnosing a signature
+ */
+const NONCE_SEARCH_RANGE = 5;
+
+/**
+ * The powers of ten checked when diagnosing an amount expressed in the wrong units
+ */
+const AMOUNT_SCALE_SEARCH_RANGE = 9;
+
+/**
+ * The largest admin funds nonce, a u32 in the withdraw message
+ */
+const MAX_ADMIN_FUNDS_NONCE = 0xffffffff;
+
+/**
+ * Finds the executor that produced the signature of the given message
+ * @param fields - The coordinator withdraw message fields
+ * @param signature - The coordinator signature
+ * @param executors - The coordinator executors
+ * @param domain - The signing domain of the program deployment
+ * @returns The executor that signed the message, or undefined
+ */
+function findMessageSigner(
+    fields: CoordinatorMessageFields,
+    signature: Uint8Array,
+    executors: PublicKey[],
+    domain: SigningDomain,
+): PublicKey | undefined {
+    const message = Coordinator.getWithdrawMessage(
+        fields.collateral,
+        fields.coordinator,
+        fields.sender,
+        fields.receiver,
+        fields.asset,
+        fields.withdrawRequest,
+        fields.adminFundsNonce,
+        domain,
+    );
+    return executors.find(executor => nacl.sign.detached.verify(message, signature, executor.toBytes()));
+}
+
+/**
+ * Lists the common mistakes that produce a valid signature for slightly different fields. Fields
+ * that cannot be encoded in the message, such as a scaled amount above a u64, are skipped.
+ * @param fields - The coordinator withdraw message fields
+ * @param admins - The collateral admins, tried as alternative senders
+ * @returns The alternative fields with the cause they reveal
+ */
+function* candidateMistakes(
+    fields: CoordinatorMessageFields,
+    admins: PublicKey[],
+): Generator<[string, CoordinatorMessageFields]> {
+    for (let offset = -NONCE_SEARCH_RANGE; offset <= NONCE_SEARCH_RANGE; offset++) {
+        const nonce = fields.adminFundsNonce + offset;
+        if (offset !== 0 && nonce >= 0 && nonce <= MAX_ADMIN_FUNDS_NONCE) {
+            yield [
+                `Wrong nonce: the signature was issued for adminFundsNonce ${nonce}, but the collateral is at ${fields.adminFundsNonce}. Request a new signature.`,
+                { ...fields, adminFundsNonce: nonce },
+            ];
+        }
+    }
+
+    for (const admin of admins) {
+        if (!admin.equals(fields.sender)) {
+            yield [
+                `Wrong sender: the signature was issued for admin ${admin.toBase58()}, not ${fields.sender.toBase58()}. Sign with that admin.`,
+                { ...fields, sender: admin },
+            ];
+        }
+    }
+
+    const amount = fields.withdrawRequest.amountOfAsset;
+    for (let exponent = 1; exponent <= AMOUNT_SCALE_SEARCH_RANGE; exponent++) {
+        const scale = new BN(10).pow(new BN(exponent));
+        const scaled = [amount.mul(scale), amount.mod(scale).isZero() ? amount.div(scale) : null];
+        for (const candidate of scaled) {
+            if (candidate && !candidate.isZero() && BigInt(candidate.toString()) <= MAX_TOKEN_AMOUNT) {
+                yield [
+                    `Wrong amount: the signature was issued for ${candidate.toString()} base units, not ${amount.toString()}. Check the amount units.`,
+                    { ...fields, withdrawRequest: { ...fields.withdrawRequest, amountOfAsset: candidate } },
+                ];
+            }
+        }
+    }
+
+    yield [
+        "Wrong salt encoding: the signature matches the salt with its bytes reversed. Check how the salt is decoded.",
+        {
+            ...fields,
+            withdrawRequest: {
+                ...fields.withdrawRequest,
+                coordinatorSignatureSalt: [...fields.withdrawRequest.coordinatorSignatureSalt].reverse(),
+            },
+        },
+    ];
+}
+
+/**
+ * Verifies the coordinator signature against every executor without sending anything. When no
+ * executor matches, the common mistakes are tried to diagnose the cause.
+ * @param fields - The coordinator withdraw message fields
+ * @param signature - The coordinator signature
+ * @param executors - The coordinator executors
+ * @param admins - The collateral admins, tried as alternative senders when diagnosing
+ * @param domain - The signing domain of the program deployment. Defaults to the mainnet one
+ * @returns The verification result
+ */
+export function verifyCoordinatorSignature(
+    fields: CoordinatorMessageFields,
+    signature: Uint8Array,
+    executors: PublicKey[],
+    admins: PublicKey[] = [],
+    domain: SigningDomain = DEFAULT_SIGNING_DOMAIN,
+): CoordinatorSignatureVerification {
+    if (executors.length === 0) {
+        return { valid: false, diagnosis: ["The coordinator has no executors."] };
+    }
+    if (signature.length !== nacl.sign.signatureLength) {
+        return { valid: false, diagnosis: [`The signature must be ${nacl.sign.signatureLength} bytes, got ${signature.length}.`] };
+    }
+
+    const executor = findMessageSigner(fields, signature, executors, domain);
+    if (executor) {
+        return { valid: true, executor, diagnosis: [] };
+    }
+
+    const diagnosis: string[] = [];
+    for (const [cause, candidate] of candidateMistakes(fields, admins)) {
+        if (findMessageSigner(candidate, signature, executors, domain)) {
+            diagnosis.push(cause);
+        }
+    }
+    return { valid: false, diagnosis };
+}
+
+/**
+ * Fetches the collateral and coordinator accounts and verifies the coordinator signature of a
+ * withdrawal before anything is sent
+ * @param program - The Main program
+ * @param collateral - The collateral account
+ * @param sender - The sender of the withdrawal
+ * @param receiver - The receiver of the withdrawal
+ * @param asset - The asset to withdraw
+ * @param withdrawRequest - The withdraw collateral instruction data
+ * @param signature - The coordinator signature
+ * @param expectedExecutor - The executor that produced the signature, when known. Otherwise
+ * every coordinator executor is tried
+ * @param domain - The signing domain of the program deployment. Defaults to the mainnet one
+ * @returns The verification result
+ *
+ * @throws UnknownExecutorError if the expected executor is not a coordinator executor
+ */
+export async function preflightCoordinatorSignature(
+    program: Program<Main>,
+    collateral: PublicKey,
+    sender: PublicKey,
+    receiver: PublicKey,
+    asset: PublicKey,
+    withdrawRequest: WithdrawCollateral,
+    signature: Uint8Array,
+    expectedExecutor?: PublicKey,
+    domain: SigningDomain = DEFAULT_SIGNING_DOMAIN,
+): Promise<CoordinatorSignatureVerification> {
+    const collateralAccount = await program.account.collateral.fetch(collateral);
+    const coordinator = await program.account.coordinator.fetch(collateralAccount.coordinator);
+    const fields: CoordinatorMessageFields = {
+        collateral,
+        coordinator: collateralAccount.coordinator,
+        sender,
+        receiver,
+        asset,
+        withdrawRequest,
+        adminFundsNonce: collateralAccount.adminFundsNonce,
+    };
+    if (!expectedExecutor) {
+        return verifyCoordinatorSignature(fields, signature, coordinator.executors, collateralAccount.admins, domain);
+    }
+
+    if (!coordinator.executors.some(executor => executor.equals(expectedExecutor))) {
+        throw new UnknownExecutorError(expectedExecutor, collateralAccount.coordinator);
+    }
+    const verification = verifyCoordinatorSignature(fields, signature, [expectedExecutor], collateralAccount.admins, domain);
+    if (verification.valid) {
+        return verification;
+    }
+
+    // Tell apart a signature from another executor from a signature over different fields
+    const anyExecutor = findMessageSigner(fields, signature, coordinator.executors, domain);
+    if (anyExecutor) {
+        return {
+            valid: false,
+            diagnosis: [`Wrong executor: the signature was produced by executor ${anyExecutor.toBase58()}, not ${expectedExecutor.toBase58()}.`],
+        };
+    }
+    return verification;
+}
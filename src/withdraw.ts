@@ -1,23 +1,35 @@
-import { BN, Program } from "@coral-xyz/anchor";
+import { BN, IdlAccounts, Program } from "@coral-xyz/anchor";
 import {
-    Keypair,
+    Connection,
     PublicKey,
-    Transaction,
-    sendAndConfirmTransaction
+    Transaction
 } from "@solana/web3.js";
 import {
-    getOrCreateAssociatedTokenAccount,
-    getAssociatedTokenAddress,
-    TOKEN_PROGRAM_ID,
-    Account
+    createAssociatedTokenAccountIdempotentInstruction,
+    getAssociatedTokenAddress
 } from "@solana/spl-token";
-import { randomBytes } from "crypto";
-import nacl from "tweetnacl";
 
 import { Main } from "./types/main";
 import { Collateral } from "./collateral";
 import { Ed25519ExtendedProgram } from "./utils/ed25519.program";
 import { Coordinator } from "./coordinator";
+import {
+    AdminWithdrawalMessage,
+    DetachedAdminSignature,
+    buildAdminSignaturesTransactions,
+    createDetachedAdminSignature,
+    getAdminSignaturesAddress,
+    getAdminWithdrawalMessage,
+    selectAdminSignatures
+} from "./adminSignatures";
+import { SignerProvider } from "./signers";
+import { DEFAULT_SIGNING_DOMAIN, SigningDomain } from "./signingDomain";
+import { sendAndConfirmWithSigner } from "./utils/transaction";
+import { SimulationReport, simulateInstructions } from "./simulation";
+import { CoordinatorSignatureError, preflightCoordinatorSignature } from "./verification";
+import { SignatureExpiredError, assertSignatureNotExpired } from "./expiry";
+import { AssetMint, assertTokenProgramSupported, fetchAssetMint, isNativeAsset } from "./tokenMint";
+import { NATIVE_UNIT, formatTokenAmount, getTokenSymbol } from "./amount";
 
 type WithdrawCollateral = {
     amountOfAsset: BN;
@@ -25,75 +37,137 @@ type WithdrawCollateral = {
     coordinatorSignatureSalt: number[];
 }
 
-async function submitCollateralSignature(
-    sender: Keypair,
+type CollateralAccount = IdlAccounts<Main>["collateral"];
+
+/**
+ * The accounts moving the withdrawn asset: the token accounts and their token program, or null
+ * for native SOL
+ */
+type WithdrawalTokenAccounts = {
+    collateralTokenAccount: PublicKey;
+    receiverTokenAccount: PublicKey;
+    tokenProgram: PublicKey;
+} | null;
+
+/**
+ * The state a withdrawal was checked against before anything was sent: the executor that produced
+ * the coordinator signature, the withdraw request and the collateral account
+ */
+type WithdrawalPreflight = {
+    executor: PublicKey;
+    withdrawRequest: WithdrawCollateral;
+    collateralAccount: CollateralAccount;
+}
+
+export type WithdrawalOptions = {
+    /** Build and simulate the transactions without sending anything */
+    dryRun?: boolean;
+    /** The executor that produced the coordinator signature. When omitted, it is looked up
+     * among the coordinator executors by verifying the signature against each of them */
+    executor?: PublicKey;
+    /** The number of seconds the coordinator signature must remain valid for, on the cluster
+     * clock, before a transaction relying on it is sent. Defaults to 60 */
+    expiryMarginSeconds?: number;
+    /** The signatures other admins produced off-chain, submitted along with the sender's own one
+     * for collaterals whose admin threshold is above one */
+    adminSignatures?: DetachedAdminSignature[];
+    /** The signing domain of the program deployment. Defaults to the mainnet one */
+    signingDomain?: SigningDomain;
+}
+
+/**
+ * The outcome of a withdrawal: the executed transaction, the simulation of each transaction for a
+ * dry run, the admin signatures collected so far when the admin threshold is not met yet, or the
+ * expiration of the coordinator signature, in which case a new signature must be requested.
+ * `stage` tells whether the signature expired before the admin signature was submitted or between
+ * its submission and the withdrawal. For native SOL, `receiverLamportDelta` is the change of the
+ * receiver balance, which includes the transaction fee when the receiver is also the sender.
+ */
+export type WithdrawalResult =
+    | { status: 'executed'; transaction: string; receiverLamportDelta?: bigint }
+    | { status: 'simulated'; simulations: SimulationReport[] }
+    | { status: 'pending'; collateralSignatureAddress: PublicKey; signers: PublicKey[]; adminThreshold: number }
+    | { status: 'expired'; stage: 'signature' | 'withdrawal'; expiresAt: number; clusterTime: number };
+
+/**
+ * Builds the transactions submitting the sender's collateral admin signature for a withdrawal,
+ * batched with the signatures other admins produced off-chain
+ * @returns The CollateralAdminSignatures account address, and the transactions to send in order,
+ * empty when there is no signature left to submit
+ */
+async function buildCollateralSignatureTransactions(
+    sender: SignerProvider,
     recipientAddress: PublicKey,
     mintAddress: PublicKey,
     withdrawRequest: WithdrawCollateral,
     adminFundsNonce: number,
     program: Program<Main>,
-    collateralAddress: PublicKey
+    collateralAddress: PublicKey,
+    adminSignatures: DetachedAdminSignature[] = [],
+    domain: SigningDomain = DEFAULT_SIGNING_DOMAIN
 ) {
-    try {
+    const message: AdminWithdrawalMessage = {
+        collateral: collateralAddress,
+        sender: sender.publicKey,
+        receiver: recipientAddress,
+        asset: mintAddress,
+        withdrawRequest,
+        adminFundsNonce,
+    };
+    const collateralSignatureAddress = getAdminSignaturesAddress(message, program.programId);
+
+    const collateralSignatureAccount = await program.account.collateralAdminSignatures.fetchNullable(collateralSignatureAddress);
+    const existingSigners = collateralSignatureAccount?.signers ?? [];
+    const signatures: DetachedAdminSignature[] = [];
+    if (!existingSigners.some(signer => signer.equals(sender.publicKey))) {
         // Generate the collateral admin signature
-        const collateralMessageSalt: number[] = Array.from(randomBytes(32)).map(Number)
-        const collateralMessage = Collateral.getWithdrawMessage(
-            collateralAddress,
-            sender.publicKey,
-            recipientAddress,
-            mintAddress,
-            withdrawRequest,
-            collateralMessageSalt,
-            adminFundsNonce
-        )
-    
-        const collateralSignature = nacl.sign.detached(Uint8Array.from(collateralMessage), sender.secretKey)
-    
-        const collateralSignatureAddress = Collateral.generateWithdrawCollateralPDA(
-            collateralAddress,
-            sender.publicKey,
+        signatures.push(await createDetachedAdminSignature(sender, message, domain));
+    }
+    if (adminSignatures.length > 0) {
+        // Submit the signatures of the other admins in the same transaction
+        const collateralAccount = await program.account.collateral.fetch(collateralAddress);
+        signatures.push(...selectAdminSignatures(
+            salt => getAdminWithdrawalMessage(message, salt, domain),
+            adminSignatures,
+            collateralAccount,
+            [...existingSigners, ...signatures.map(signature => signature.admin)]
+        ));
+    }
+
+    const transactions = await buildAdminSignaturesTransactions(program, message, signatures, sender.publicKey, domain);
+    return { collateralSignatureAddress, transactions };
+}
+
+export async function submitCollateralSignature(
+    sender: SignerProvider,
+    recipientAddress: PublicKey,
+    mintAddress: PublicKey,
+    withdrawRequest: WithdrawCollateral,
+    adminFundsNonce: number,
+    program: Program<Main>,
+    collateralAddress: PublicKey,
+    adminSignatures: DetachedAdminSignature[] = [],
+    domain: SigningDomain = DEFAULT_SIGNING_DOMAIN
+) {
+    try {
+        const { collateralSignatureAddress, transactions } = await buildCollateralSignatureTransactions(
+            sender,
             recipientAddress,
             mintAddress,
             withdrawRequest,
             adminFundsNonce,
-            program.programId
+            program,
+            collateralAddress,
+            adminSignatures,
+            domain
         );
-    
-        const collateralSignatureAccount = await program.account.collateralAdminSignatures.fetchNullable(collateralSignatureAddress);
-        if (!collateralSignatureAccount || collateralSignatureAccount.signers.every(signer => !signer.equals(sender.publicKey))) {
-            // Create the instruction to submit the admin signature to the signatures account 
-            const signatureVereficationInstruction = Ed25519ExtendedProgram.createSignatureVerificationInstruction([{
-                signer: sender.publicKey,
-                signature: Buffer.from(collateralSignature),
-                message: collateralMessage,
-            }]);
-    
-            // Submit the admin signature to the signatures account 
-            const transaction = await program.methods.submitSignatures({
-                salts: [collateralMessageSalt],
-                targetNonce: adminFundsNonce,
-                signatureSubmissionType: {
-                    withdrawCollateralAsset: {
-                        sender: sender.publicKey,
-                        receiver: recipientAddress,
-                        asset: mintAddress,
-                        withdrawRequest,
-                    }
-                },
-            }).accounts({
-                collateral: collateralAddress,
-                collateralAdminSignatures: collateralSignatureAddress,
-                rentPayer: sender.publicKey,
-            }).preInstructions([
-                signatureVereficationInstruction
-            ]).transaction();
-    
+
+        for (const transaction of transactions) {
             // Send and confirm the transaction
-            const submitSignaturesHash = await sendAndConfirmTransaction(
+            const submitSignaturesHash = await sendAndConfirmWithSigner(
                 program.provider.connection,
                 transaction,
-                [sender],
-                { commitment: 'confirmed' }
+                sender
             );
     
             console.log("Collateral admin signature submitted");
@@ -106,105 +180,688 @@ async function submitCollateralSignature(
     }
 }
 
-export async function executeWithdrawal(
+/**
+ * Gets the associated token account of the owner and the instruction to create it, if it does not
+ * exist yet
+ * @param connection - The connection to the Solana network
+ * @param payer - The signer paying for the account creation
+ * @param assetMint - The SPL token mint and its token program
+ * @param owner - The owner of the token account
+ * @returns The associated token account address and its creation instruction, or null
+ */
+async function buildTokenAccountCreation(
+    connection: Connection,
+    payer: SignerProvider,
+    assetMint: AssetMint,
+    owner: PublicKey
+) {
+    const tokenAccount = await getAssociatedTokenAddress(assetMint.address, owner, false, assetMint.tokenProgram);
+    const createInstruction = await connection.getAccountInfo(tokenAccount)
+        ? null
+        : createAssociatedTokenAccountIdempotentInstruction(
+            payer.publicKey,
+            tokenAccount,
+            owner,
+            assetMint.address,
+            assetMint.tokenProgram
+        );
+    return { tokenAccount, createInstruction };
+}
+
+/**
+ * Gets the associated token account of the owner, creating it when it does not exist yet
+ * @param connection - The connection to the Solana network
+ * @param payer - The signer paying for the account creation
+ * @param assetMint - The SPL token mint and its token program
+ * @param owner - The owner of the token account
+ * @returns The associated token account address
+ */
+async function getOrCreateTokenAccount(
+    connection: Connection,
+    payer: SignerProvider,
+    assetMint: AssetMint,
+    owner: PublicKey
+) {
+    const { tokenAccount, createInstruction } = await buildTokenAccountCreation(connection, payer, assetMint, owner);
+    if (createInstruction) {
+        await sendAndConfirmWithSigner(connection, new Transaction().add(createInstruction), payer);
+    }
+    return tokenAccount;
+}
+
+/**
+ * Fetches the withdrawn mint and checks the program accepts its token program, then prints the
+ * amount in human units
+ * @param program - The Main program
+ * @param mintAddress - The SPL token mint, or the default key for native SOL
+ * @param withdrawRequest - The withdraw request
+ * @returns The mint and its token program, or null for native SOL
+ *
+ * @throws UnsupportedTokenProgramError if the program does not accept the token program of the mint
+ */
+async function prepareAssetMint(
+    program: Program<Main>,
+    mintAddress: PublicKey,
+    withdrawRequest: WithdrawCollateral
+): Promise<AssetMint | null> {
+    const amount = BigInt(withdrawRequest.amountOfAsset.toString());
+    if (isNativeAsset(mintAddress)) {
+        console.log("Amount", formatTokenAmount(amount, NATIVE_UNIT), `(${amount} lamports)`)
+        return null;
+    }
+
+    const assetMint = await fetchAssetMint(program.provider.connection, mintAddress);
+    assertTokenProgramSupported(program, assetMint);
+    const unit = { decimals: assetMint.mint.decimals, symbol: getTokenSymbol(mintAddress) };
+    console.log("Amount", formatTokenAmount(amount, unit), `(${amount} base units)`)
+    return assetMint;
+}
+
+/**
+ * Builds the withdraw request shared by the coordinator and the collateral admin messages
+ * @param expiration - The expiration time of the coordinator signature
+ * @param amount - The amount of the asset to withdraw, in the mint base units
+ * @param signatureSalt - The salt used to generate the coordinator signature
+ * @returns The withdraw collateral instruction data
+ */
+export function buildWithdrawRequest(
+    expiration: number,
+    amount: bigint,
+    signatureSalt: Buffer
+): WithdrawCollateral {
+    return {
+        amountOfAsset: new BN(amount.toString()),
+        signatureExpirationTime: new BN(expiration),
+        coordinatorSignatureSalt: Array.from(signatureSalt).map(Number),
+    };
+}
+
+/**
+ * Verifies the coordinator signature against the coordinator executors before anything is sent
+ * @returns The executor that produced the signature
+ *
+ * @throws CoordinatorSignatureError with the diagnosis if no executor produced the signature
+ * @throws UnknownExecutorError if the given executor is not a coordinator executor
+ */
+export async function verifyWithdrawalSignature(
     program: Program<Main>,
     collateral: PublicKey,
-    depositAddress: PublicKey,
-    sender: Keypair,
+    sender: SignerProvider,
     recipientAddress: PublicKey,
     mintAddress: PublicKey,
     expiration: number,
-    amountInCents: number,
+    amount: bigint,
     signatureSalt: Buffer,
-    signatureData: Buffer
+    signatureData: Buffer,
+    executor?: PublicKey,
+    domain: SigningDomain = DEFAULT_SIGNING_DOMAIN
 ) {
-    // Load withdraw parameters from the given signature
-    const coordinatorMessageSalt: number[] = Array.from(signatureSalt).map(Number)
-    const coordinatorSignature: number[] = Array.from(signatureData).map(Number)
-    const expiresAt = new BN(expiration)
-    const amountOfAsset = new BN(amountInCents)
-
-    // The withdraw request is the same for both coordinator and collateral admin
-    const withdrawRequest: WithdrawCollateral = {
-        amountOfAsset,
-        signatureExpirationTime: expiresAt,
-        coordinatorSignatureSalt: coordinatorMessageSalt,
-    };
+    const verification = await preflightCoordinatorSignature(
+        program,
+        collateral,
+        sender.publicKey,
+        recipientAddress,
+        mintAddress,
+        buildWithdrawRequest(expiration, amount, signatureSalt),
+        signatureData,
+        executor,
+        domain
+    );
+    if (!verification.valid) {
+        throw new CoordinatorSignatureError(verification.diagnosis);
+    }
+    console.log("Coordinator signature verified, signed by executor", verification.executor!.toBase58())
+    return verification.executor!;
+}
 
-    const collateralAccount = await program.account.collateral.fetch(collateral)
+/**
+ * Submits the sender's collateral admin signature for a withdrawal without executing it, along
+ * with the signatures of the other admins given in the options
+ * @returns The address of the CollateralAdminSignatures account holding the signature
+ *
+ * @throws SignatureExpiredError if the coordinator signature expires within the safety margin
+ */
+export async function signWithdrawal(
+    program: Program<Main>,
+    collateral: PublicKey,
+    sender: SignerProvider,
+    recipientAddress: PublicKey,
+    mintAddress: PublicKey,
+    expiration: number,
+    amount: bigint,
+    signatureSalt: Buffer,
+    options: WithdrawalOptions = {}
+) {
+    // The admin signature is useless once the coordinator signature expires, so do not pay for it
+    await assertSignatureNotExpired(program.provider.connection, expiration, options.expiryMarginSeconds);
 
-    // Get the source token account for the collateral to withdraw from
-    const collateralTokenAccount = await getAssociatedTokenAddress(mintAddress, depositAddress, true);
-    console.log("Source token account", collateralTokenAccount.toBase58())
+    const withdrawRequest = buildWithdrawRequest(expiration, amount, signatureSalt);
+    const collateralAccount = await program.account.collateral.fetch(collateral)
 
-    // Get or create the associated token account for the recipient to receive 
-    // the withdrawn tokens
-    const destinationTokenAccount = await getOrCreateAssociatedTokenAccount(
-        program.provider.connection,
+    // Submit the collateral admin signature to the blockchain for withdrawal verification
+    return submitCollateralSignature(
         sender,
+        recipientAddress,
         mintAddress,
+        withdrawRequest,
+        collateralAccount.adminFundsNonce,
+        program,
+        collateral,
+        options.adminSignatures,
+        options.signingDomain
+    );
+}
+
+/**
+ * Fetches the admins that signed the withdrawal on-chain
+ * @returns The CollateralAdminSignatures account address and its signers
+ */
+async function getAdminSignatures(
+    program: Program<Main>,
+    collateral: PublicKey,
+    sender: SignerProvider,
+    recipientAddress: PublicKey,
+    mintAddress: PublicKey,
+    withdrawRequest: WithdrawCollateral,
+    collateralAccount: CollateralAccount
+) {
+    const collateralSignatureAddress = Collateral.generateWithdrawCollateralPDA(
+        collateral,
+        sender.publicKey,
         recipientAddress,
-        false,
-        'confirmed',
-        { commitment: 'confirmed' },
-        TOKEN_PROGRAM_ID
+        mintAddress,
+        withdrawRequest,
+        collateralAccount.adminFundsNonce,
+        program.programId
     );
-    console.log("Destination token account", destinationTokenAccount.address.toBase58())
+    const collateralSignatureAccount = await program.account.collateralAdminSignatures.fetchNullable(collateralSignatureAddress);
+    return { collateralSignatureAddress, signers: collateralSignatureAccount?.signers ?? [] };
+}
 
-    // Submit the collateral admin signature to the blockchain for withdrawal verification
-    const collateralSignatureAddress = await submitCollateralSignature(
-        sender,
+/**
+ * Builds the withdrawal transaction: the coordinator signature verification followed by the
+ * withdraw collateral asset instruction. For native SOL, the asset and token accounts are left
+ * out, as the program expects.
+ * @returns The withdrawal transaction
+ */
+async function buildWithdrawalTransaction(
+    program: Program<Main>,
+    collateral: PublicKey,
+    collateralAccount: CollateralAccount,
+    sender: SignerProvider,
+    recipientAddress: PublicKey,
+    mintAddress: PublicKey,
+    withdrawRequest: WithdrawCollateral,
+    signatureData: Buffer,
+    executor: PublicKey,
+    tokenAccounts: WithdrawalTokenAccounts,
+    domain: SigningDomain = DEFAULT_SIGNING_DOMAIN
+) {
+    // Load the coordinator signature from the given signature data
+    const coordinatorSignature: number[] = Array.from(signatureData).map(Number)
+
+    const collateralSignatureAddress = Collateral.generateWithdrawCollateralPDA(
+        collateral,
+        sender.publicKey,
         recipientAddress,
         mintAddress,
         withdrawRequest,
         collateralAccount.adminFundsNonce,
+        program.programId
+    );
+
+    return new Transaction().add(
+        // Verify the coordinator signature instruction
+        Ed25519ExtendedProgram.createSignatureVerificationInstruction([
+            {
+                signer: executor,
+                signature: Buffer.from(coordinatorSignature),
+                message: Coordinator.getWithdrawMessage(
+                    collateral,
+                    collateralAccount.coordinator,
+                    sender.publicKey,
+                    recipientAddress,
+                    mintAddress,
+                    withdrawRequest,
+                    collateralAccount.adminFundsNonce,
+                    domain,
+                )
+            }
+        ]),
+        // Withdraw the collateral asset instruction
+        await program.methods.withdrawCollateralAsset(withdrawRequest)
+            .accountsPartial({
+                sender: sender.publicKey,
+                receiver: recipientAddress,
+                asset: tokenAccounts ? mintAddress : null,
+                collateralTokenAccount: tokenAccounts?.collateralTokenAccount ?? null,
+                receiverTokenAccount: tokenAccounts?.receiverTokenAccount ?? null,
+                coordinator: collateralAccount.coordinator,
+                collateral: collateral,
+                collateralAdminSignatures: collateralSignatureAddress,
+                tokenProgram: tokenAccounts?.tokenProgram,
+            })
+            .instruction()
+    );
+}
+
+/**
+ * Derives the collateral deposit address, the CollateralAuthority PDA owning the collateral
+ * assets. An address given by the caller is only checked against it, with a warning when it
+ * differs, as the program would reject the withdrawal.
+ * @param program - The Main program
+ * @param collateral - The collateral account
+ * @param depositAddress - The deposit address given by the caller, if any
+ * @returns The derived deposit address
+ */
+export function resolveDepositAddress(
+    program: Program<Main>,
+    collateral: PublicKey,
+    depositAddress?: PublicKey,
+): PublicKey {
+    const derived = Collateral.deriveAuthorityPDA(collateral, program.programId);
+    if (depositAddress && !depositAddress.equals(derived)) {
+        console.warn([
+            "!!! WARNING: DEPOSIT ADDRESS MISMATCH !!!",
+            `The given deposit address ${depositAddress.toBase58()} is not the collateral authority of ${collateral.toBase58()}.`,
+            `Using the derived deposit address ${derived.toBase58()} instead. Check where the given address came from.`,
+        ].join("\n"));
+    }
+    return derived;
+}
+
+/**
+ * Verifies the coordinator signature and fetches the collateral account a withdrawal relies on,
+ * before anything is sent
+ * @returns The preflight result, passed on to the following steps of the withdrawal
+ *
+ * @throws CoordinatorSignatureError with the diagnosis if no executor produced the signature
+ */
+async function preflightWithdrawal(
+    program: Program<Main>,
+    collateral: PublicKey,
+    sender: SignerProvider,
+    recipientAddress: PublicKey,
+    mintAddress: PublicKey,
+    expiration: number,
+    amount: bigint,
+    signatureSalt: Buffer,
+    signatureData: Buffer,
+    options: WithdrawalOptions
+): Promise<WithdrawalPreflight> {
+    const executor = await verifyWithdrawalSignature(
         program,
-        collateral
+        collateral,
+        sender,
+        recipientAddress,
+        mintAddress,
+        expiration,
+        amount,
+        signatureSalt,
+        signatureData,
+        options.executor,
+        options.signingDomain
     );
+    return {
+        executor,
+        withdrawRequest: buildWithdrawRequest(expiration, amount, signatureSalt),
+        collateralAccount: await program.account.collateral.fetch(collateral),
+    };
+}
+
+/**
+ * Executes a withdrawal that passed its preflight and whose collateral admin signatures meet the
+ * admin threshold
+ * @returns The withdrawal transaction signature, and the change of the receiver balance for
+ * native SOL
+ */
+async function sendWithdrawal(
+    program: Program<Main>,
+    collateral: PublicKey,
+    depositAddress: PublicKey | undefined,
+    sender: SignerProvider,
+    recipientAddress: PublicKey,
+    mintAddress: PublicKey,
+    expiration: number,
+    signatureData: Buffer,
+    preflight: WithdrawalPreflight,
+    options: WithdrawalOptions
+) {
+    const { executor, withdrawRequest, collateralAccount } = preflight;
+
+    // Check the expiration before creating the receiver token account, as the withdrawal would
+    // fail on-chain anyway
+    await assertSignatureNotExpired(program.provider.connection, expiration, options.expiryMarginSeconds);
+
+    const connection = program.provider.connection;
+    let tokenAccounts: WithdrawalTokenAccounts = null;
+    const assetMint = await prepareAssetMint(program, mintAddress, withdrawRequest);
+    if (assetMint) {
+
+        // Get the source token account for the collateral to withdraw from
+        const collateralTokenAccount = await getAssociatedTokenAddress(
+            mintAddress,
+            resolveDepositAddress(program, collateral, depositAddress),
+            true,
+            assetMint.tokenProgram
+        );
+        console.log("Source token account", collateralTokenAccount.toBase58())
 
-    const coordinator = await program.account.coordinator.fetch(collateralAccount.coordinator)
-    if (!coordinator.executors || coordinator.executors.length === 0) {
-        throw new Error('Not executors found in the given coordinator')
+        // Get or create the associated token account for the recipient to receive 
+        // the withdrawn tokens
+        const receiverTokenAccount = await getOrCreateTokenAccount(connection, sender, assetMint, recipientAddress);
+        console.log("Destination token account", receiverTokenAccount.toBase58())
+        tokenAccounts = { collateralTokenAccount, receiverTokenAccount, tokenProgram: assetMint.tokenProgram };
     }
 
-    const transaction = await sendAndConfirmTransaction(
+    const balanceBefore = tokenAccounts ? null : await connection.getBalance(recipientAddress, 'confirmed');
+    const transaction = await sendAndConfirmWithSigner(
         program.provider.connection,
-        new Transaction().add(
-            // Verify the coordinator signature instruction
-            Ed25519ExtendedProgram.createSignatureVerificationInstruction([
-                {
-                    signer: coordinator.executors.find(c => c)!,
-                    signature: Buffer.from(coordinatorSignature),
-                    message: Coordinator.getWithdrawMessage(
-                        collateral,
-                        collateralAccount.coordinator,
-                        sender.publicKey,
-                        recipientAddress,
-                        mintAddress,
-                        withdrawRequest,
-                        collateralAccount.adminFundsNonce,
-
-                    )
-                }
-            ]),
-            // Withdraw the collateral asset instruction
-            await program.methods.withdrawCollateralAsset(withdrawRequest)
-                .accounts({
-                    sender: sender.publicKey,
-                    receiver: recipientAddress,
-                    asset: mintAddress,
-                    collateralTokenAccount: collateralTokenAccount,
-                    receiverTokenAccount: destinationTokenAccount.address,
-                    coordinator: collateralAccount.coordinator,
-                    collateral: collateral,
-                    collateralAdminSignatures: collateralSignatureAddress,
-                })
-                .instruction()
+        await buildWithdrawalTransaction(
+            program,
+            collateral,
+            collateralAccount,
+            sender,
+            recipientAddress,
+            mintAddress,
+            withdrawRequest,
+            signatureData,
+            executor,
+            tokenAccounts,
+            options.signingDomain
         ),
-        [sender],
-        { commitment: 'confirmed' }
+        sender
     );
 
     console.log("Withdrawal successful")
+    if (balanceBefore === null) {
+        return { transaction };
+    }
+    const receiverLamportDelta = BigInt(await connection.getBalance(recipientAddress, 'confirmed')) - BigInt(balanceBefore);
+    console.log("Receiver balance change", receiverLamportDelta.toString(), "lamports")
+    return { transaction, receiverLamportDelta };
+}
+
+/**
+ * Executes a withdrawal whose collateral admin signatures were already submitted
+ * @returns The withdrawal transaction signature
+ *
+ * @throws SignatureExpiredError if the coordinator signature expires within the safety margin
+ */
+export async function submitWithdrawal(
+    program: Program<Main>,
+    collateral: PublicKey,
+    depositAddress: PublicKey | undefined,
+    sender: SignerProvider,
+    recipientAddress: PublicKey,
+    mintAddress: PublicKey,
+    expiration: number,
+    amount: bigint,
+    signatureSalt: Buffer,
+    signatureData: Buffer,
+    options: WithdrawalOptions = {}
+) {
+    // Check the coordinator signature before paying for any transaction
+    const preflight = await preflightWithdrawal(
+        program,
+        collateral,
+        sender,
+        recipientAddress,
+        mintAddress,
+        expiration,
+        amount,
+        signatureSalt,
+        signatureData,
+        options
+    );
+
+    // The withdrawal fails on-chain until enough admins signed it
+    const { signers, collateralSignatureAddress } = await getAdminSignatures(
+        program,
+        collateral,
+        sender,
+        recipientAddress,
+        mintAddress,
+        preflight.withdrawRequest,
+        preflight.collateralAccount
+    );
+    const { adminThreshold } = preflight.collateralAccount;
+    if (signers.length < adminThreshold) {
+        throw new Error(
+            `Only ${signers.length} of the ${adminThreshold} required admin signatures were submitted to ${collateralSignatureAddress.toBase58()}. Collect the missing signatures first.`
+        );
+    }
+
+    const { transaction } = await sendWithdrawal(
+        program,
+        collateral,
+        depositAddress,
+        sender,
+        recipientAddress,
+        mintAddress,
+        expiration,
+        signatureData,
+        preflight,
+        options
+    );
     return transaction;
-}
\ No newline at end of file
+}
+
+/**
+ * Simulates every transaction of a withdrawal without sending anything, so the withdrawal can be
+ * checked before the admin signature account is used up
+ * @returns The simulation report of each transaction, in execution order
+ *
+ * @throws SignatureExpiredError if the coordinator signature expires within the safety margin
+ */
+export async function simulateWithdrawal(
+    program: Program<Main>,
+    collateral: PublicKey,
+    depositAddress: PublicKey | undefined,
+    sender: SignerProvider,
+    recipientAddress: PublicKey,
+    mintAddress: PublicKey,
+    expiration: number,
+    amount: bigint,
+    signatureSalt: Buffer,
+    signatureData: Buffer,
+    options: WithdrawalOptions = {}
+): Promise<SimulationReport[]> {
+    const { executor, withdrawRequest, collateralAccount } = await preflightWithdrawal(
+        program,
+        collateral,
+        sender,
+        recipientAddress,
+        mintAddress,
+        expiration,
+        amount,
+        signatureSalt,
+        signatureData,
+        options
+    );
+    await assertSignatureNotExpired(program.provider.connection, expiration, options.expiryMarginSeconds);
+    const reports: SimulationReport[] = [];
+    // The withdrawal depends on the state left by the previous transactions, which a simulation
+    // cannot carry over
+    const pendingDependencies: string[] = [];
+
+    const { transactions: signatureTransactions } = await buildCollateralSignatureTransactions(
+        sender,
+        recipientAddress,
+        mintAddress,
+        withdrawRequest,
+        collateralAccount.adminFundsNonce,
+        program,
+        collateral,
+        options.adminSignatures,
+        options.signingDomain
+    );
+    for (const [index, signatureTransaction] of signatureTransactions.entries()) {
+        const batch = signatureTransactions.length > 1 ? ` (${index + 1} of ${signatureTransactions.length})` : "";
+        reports.push(await simulateInstructions(
+            program,
+            `Submit collateral admin signature${batch}`,
+            signatureTransaction.instructions,
+            sender.publicKey
+        ));
+    }
+    if (signatureTransactions.length > 0) {
+        pendingDependencies.push("the admin signature");
+    }
+
+    let tokenAccounts: WithdrawalTokenAccounts = null;
+    const assetMint = await prepareAssetMint(program, mintAddress, withdrawRequest);
+    if (assetMint) {
+        const collateralTokenAccount = await getAssociatedTokenAddress(
+            mintAddress,
+            resolveDepositAddress(program, collateral, depositAddress),
+            true,
+            assetMint.tokenProgram
+        );
+        const { tokenAccount: receiverTokenAccount, createInstruction } = await buildTokenAccountCreation(
+            program.provider.connection,
+            sender,
+            assetMint,
+            recipientAddress
+        );
+        if (createInstruction) {
+            reports.push(await simulateInstructions(
+                program,
+                "Create receiver token account",
+                [createInstruction],
+                sender.publicKey
+            ));
+            pendingDependencies.push("the receiver token account");
+        }
+        tokenAccounts = { collateralTokenAccount, receiverTokenAccount, tokenProgram: assetMint.tokenProgram };
+    }
+
+    const withdrawalTransaction = await buildWithdrawalTransaction(
+        program,
+        collateral,
+        collateralAccount,
+        sender,
+        recipientAddress,
+        mintAddress,
+        withdrawRequest,
+        signatureData,
+        executor,
+        tokenAccounts,
+        options.signingDomain
+    );
+    const withdrawalReport = await simulateInstructions(
+        program,
+        "Withdraw collateral asset",
+        withdrawalTransaction.instructions,
+        sender.publicKey
+    );
+    if (pendingDependencies.length > 0) {
+        withdrawalReport.note = `Simulated without ${pendingDependencies.join(" and ")}, which only exist once the previous transactions are sent`;
+    }
+    reports.push(withdrawalReport);
+
+    return reports;
+}
+
+/**
+ * Submits the sender's collateral admin signature and executes the withdrawal once the admin
+ * threshold is met, or returns a `pending` result otherwise. The coordinator signature expiration
+ * is checked against the cluster clock before each transaction, and the withdrawal is aborted
+ * with an `expired` result as soon as it falls within the safety margin. The deposit address is
+ * derived from the collateral; a given one that differs is reported and ignored.
+ * @returns The outcome of the withdrawal
+ */
+export async function executeWithdrawal(
+    program: Program<Main>,
+    collateral: PublicKey,
+    depositAddress: PublicKey | undefined,
+    sender: SignerProvider,
+    recipientAddress: PublicKey,
+    mintAddress: PublicKey,
+    expiration: number,
+    amount: bigint,
+    signatureSalt: Buffer,
+    signatureData: Buffer,
+    options: WithdrawalOptions = {}
+): Promise<WithdrawalResult> {
+    let stage: 'signature' | 'withdrawal' = 'signature';
+    depositAddress = resolveDepositAddress(program, collateral, depositAddress);
+    try {
+        if (options.dryRun) {
+            const simulations = await simulateWithdrawal(
+                program,
+                collateral,
+                depositAddress,
+                sender,
+                recipientAddress,
+                mintAddress,
+                expiration,
+                amount,
+                signatureSalt,
+                signatureData,
+                options
+            );
+            return { status: 'simulated', simulations };
+        }
+
+        // Check the coordinator signature before the admin signature is submitted, as a bad
+        // coordinator signature would otherwise only fail on-chain after using up the signature PDA
+        const preflight = await preflightWithdrawal(
+            program,
+            collateral,
+            sender,
+            recipientAddress,
+            mintAddress,
+            expiration,
+            amount,
+            signatureSalt,
+            signatureData,
+            options
+        );
+
+        // Reject an unsupported token program before the admin signature is used up
+        if (!isNativeAsset(mintAddress)) {
+            assertTokenProgramSupported(program, await fetchAssetMint(program.provider.connection, mintAddress));
+        }
+
+        // Submit the collateral admin signature before executing the withdrawal
+        const collateralSignatureAddress = await signWithdrawal(
+            program,
+            collateral,
+            sender,
+            recipientAddress,
+            mintAddress,
+            expiration,
+            amount,
+            signatureSalt,
+            options
+        );
+
+        // Leave the withdrawal to whoever submits the last missing admin signature
+        const { adminThreshold } = preflight.collateralAccount;
+        const { signers } = await program.account.collateralAdminSignatures.fetch(collateralSignatureAddress);
+        if (signers.length < adminThreshold) {
+            return { status: 'pending', collateralSignatureAddress, signers, adminThreshold };
+        }
+
+        stage = 'withdrawal';
+        const { transaction, receiverLamportDelta } = await sendWithdrawal(
+            program,
+            collateral,
+            depositAddress,
+            sender,
+            recipientAddress,
+            mintAddress,
+            expiration,
+            signatureData,
+            preflight,
+            options
+        );
+        return { status: 'executed', transaction, receiverLamportDelta };
+    } catch (error) {
+        if (error instanceof SignatureExpiredError) {
+            return { status: 'expired', stage, expiresAt: error.expiresAt, clusterTime: error.clusterTime };
+        }
+        throw error;
+    }
+}
@@ -0,0 +1,222 @@
+import { PublicKey } from "@solana/web3.js";
+import { bs58 } from "@coral-xyz/anchor/dist/cjs/utils/bytes";
+
+import { MAX_TOKEN_AMOUNT } from "./amount";
+
+export const SALT_SIZE = 32;
+export const SIGNATURE_SIZE = 64;
+
+/**
+ * The latest timestamp, in seconds, accepted as a signature expiration. Anything above is most
+ * likely a timestamp in milliseconds.
+ */
+const MAX_EXPIRATION_TIMESTAMP = 10_000_000_000;
+
+/**
+ * The withdrawal authorized by the `/withdrawal-signature` API response
+ */
+export type WithdrawalSignatureResponse = {
+  /** The collateral proxy account to withdraw from */
+  collateral: PublicKey;
+  /** The SPL token mint of the asset to withdraw */
+  asset: PublicKey;
+  /** The amount to withdraw in the mint base units, e.g. 1500000 for 1.5 USDC */
+  amount: bigint;
+  /** The account receiving the withdrawn asset */
+  recipient: PublicKey;
+  /** The unix timestamp, in seconds, at which the coordinator signature expires */
+  expiresAt: number;
+  /** The 32-byte salt used to generate the coordinator signature */
+  salt: Buffer;
+  /** The 64-byte coordinator signature */
+  signature: Buffer;
+  /** The coordinator executor that produced the signature, when the response names it */
+  executor?: PublicKey;
+}
+
+/**
+ * The fields of the response in the order they appear in its `parameters` array
+ */
+export const WITHDRAWAL_SIGNATURE_FIELDS: (keyof WithdrawalSignatureResponse)[] = [
+  "collateral",
+  "asset",
+  "amount",
+  "recipient",
+  "expiresAt",
+  "salt",
+  "signature",
+  "executor",
+];
+
+/**
+ * The number of mandatory entries of the `parameters` array. The executor is optional.
+ */
+const REQUIRED_PARAMETERS = 7;
+
+/**
+ * Error thrown when a withdrawal signature API response does not match the expected schema
+ */
+export class WithdrawalSignatureParseError extends Error {
+  constructor(readonly field: string, reason: string) {
+    super(`Invalid withdrawal signature field \`${field}\`: ${reason}`);
+    this.name = "WithdrawalSignatureParseError";
+  }
+}
+
+/**
+ * Parses a base58-encoded public key
+ * @param field - The field name used in errors
+ * @param value - The raw value
+ * @returns The public key
+ */
+export function parsePublicKey(field: string, value: unknown): PublicKey {
+  if (typeof value !== "string") {
+    throw new WithdrawalSignatureParseError(field, `expected a base58 public key, got ${typeof value}`);
+  }
+  let decoded: Uint8Array;
+  try {
+    decoded = bs58.decode(value);
+  } catch {
+    throw new WithdrawalSignatureParseError(field, `${value} is not valid base58`);
+  }
+  if (decoded.length !== 32) {
+    throw new WithdrawalSignatureParseError(field, `expected 32 bytes, got ${decoded.length}`);
+  }
+  return new PublicKey(decoded);
+}
+
+/**
+ * Parses a non-negative integer given either as a number or as a decimal string
+ * @param field - The field name used in errors
+ * @param value - The raw value
+ * @returns The integer
+ */
+export function parseInteger(field: string, value: unknown): number {
+  const isDecimalString = typeof value === "string" && /^\d+$/.test(value);
+  if (typeof value !== "number" && !isDecimalString) {
+    throw new WithdrawalSignatureParseError(field, `expected a non-negative integer, got ${JSON.stringify(value)}`);
+  }
+
+  const integer = Number(value);
+  if (!Number.isSafeInteger(integer) || integer < 0) {
+    throw new WithdrawalSignatureParseError(field, `expected a non-negative integer, got ${JSON.stringify(value)}`);
+  }
+  return integer;
+}
+
+/**
+ * Parses an amount of base units given either as a number or as a decimal string. Numbers above
+ * the safe integer range are refused, as they may already have lost precision.
+ * @param field - The field name used in errors
+ * @param value - The raw value
+ * @returns The amount
+ */
+export function parseAmount(field: string, value: unknown): bigint {
+  if (typeof value === "number") {
+    if (!Number.isInteger(value) || value < 0) {
+      throw new WithdrawalSignatureParseError(field, `expected a non-negative integer of base units, got ${value}`);
+    }
+    if (!Number.isSafeInteger(value)) {
+      throw new WithdrawalSignatureParseError(field, `${value} is above the safe integer range and may have lost precision. Give it as a decimal string`);
+    }
+    return BigInt(value);
+  }
+  if (typeof value !== "string" || !/^\d+$/.test(value)) {
+    throw new WithdrawalSignatureParseError(field, `expected a non-negative integer of base units, got ${JSON.stringify(value)}`);
+  }
+
+  const amount = BigInt(value);
+  if (amount > MAX_TOKEN_AMOUNT) {
+    throw new WithdrawalSignatureParseError(field, `${value} does not fit in a u64`);
+  }
+  return amount;
+}
+
+/**
+ * Parses a unix timestamp in seconds
+ * @param field - The field name used in errors
+ * @param value - The raw value
+ * @returns The timestamp
+ */
+function parseTimestamp(field: string, value: unknown): number {
+  const timestamp = parseInteger(field, value);
+  if (timestamp === 0 || timestamp >= MAX_EXPIRATION_TIMESTAMP) {
+    throw new WithdrawalSignatureParseError(field, `${timestamp} is not a unix timestamp in seconds`);
+  }
+  return timestamp;
+}
+
+/**
+ * Parses a fixed-size byte string given either as base64 or as an array of bytes
+ * @param field - The field name used in errors
+ * @param value - The raw value
+ * @param size - The expected number of bytes
+ * @returns The bytes
+ */
+export function parseBytes(field: string, value: unknown, size: number): Buffer {
+  let bytes: Buffer;
+  if (typeof value === "string") {
+    if (!/^[A-Za-z0-9+/]*={0,2}$/.test(value) || value.length % 4 !== 0) {
+      throw new WithdrawalSignatureParseError(field, "expected a base64 string");
+    }
+    bytes = Buffer.from(value, "base64");
+  } else if (Array.isArray(value)) {
+    if (!value.every(byte => Number.isInteger(byte) && byte >= 0 && byte <= 255)) {
+      throw new WithdrawalSignatureParseError(field, "expected an array of bytes between 0 and 255");
+    }
+    bytes = Buffer.from(value);
+  } else {
+    throw new WithdrawalSignatureParseError(field, `expected a base64 string or a byte array, got ${typeof value}`);
+  }
+
+  if (bytes.length !== size) {
+    throw new WithdrawalSignatureParseError(field, `expected ${size} bytes, got ${bytes.length}`);
+  }
+  return bytes;
+}
+
+/**
+ * Parses and validates a `/withdrawal-signature` API response.
+ *
+ * The response may be either the `parameters` array itself or an object holding it in its
+ * `parameters` field. The salt and signature are accepted both as base64 strings and as byte
+ * arrays, and the amount and expiration both as numbers and as decimal strings. The executor
+ * that produced the signature may be given as an eighth parameter or as an `executor` field.
+ *
+ * @param response - The decoded JSON response
+ * @returns The typed withdrawal signature
+ *
+ * @throws WithdrawalSignatureParseError naming the first invalid field
+ */
+export function parseWithdrawalSignatureResponse(response: unknown): WithdrawalSignatureResponse {
+  let parameters: unknown = response;
+  let executorField: unknown;
+  if (!Array.isArray(response) && typeof response === "object" && response !== null) {
+    const fields = response as Record<string, unknown>;
+    parameters = fields.parameters;
+    executorField = fields.executor;
+  }
+  if (!Array.isArray(parameters)) {
+    throw new WithdrawalSignatureParseError("parameters", "expected an array or an object with a `parameters` array");
+  }
+  const values: unknown[] = parameters;
+  if (values.length !== REQUIRED_PARAMETERS && values.length !== WITHDRAWAL_SIGNATURE_FIELDS.length) {
+    throw new WithdrawalSignatureParseError(
+      "parameters",
+      `expected ${REQUIRED_PARAMETERS} or ${WITHDRAWAL_SIGNATURE_FIELDS.length} entries, got ${values.length}`
+    );
+  }
+
+  const [collateral, asset, amount, recipient, expiresAt, salt, signature] = values;
+  const executor = values[REQUIRED_PARAMETERS] ?? executorField;
+  return {
+    collateral: parsePublicKey("collateral", collateral),
+    asset: parsePublicKey("asset", asset),
+    amount: parseAmount("amount", amount),
+    recipient: parsePublicKey("recipient", recipient),
+    expiresAt: parseTimestamp("expiresAt", expiresAt),
+    salt: parseBytes("salt", salt, SALT_SIZE),
+    signature: parseBytes("signature", signature, SIGNATURE_SIZE),
+    executor: executor === undefined || executor === null ? undefined : parsePublicKey("executor", executor),
+  };
+}
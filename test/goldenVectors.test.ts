@@ -0,0 +1,273 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+
+import { Collateral } from "../src/collateral";
+import { Coordinator } from "../src/coordinator";
+import { HashUtils } from "../src/hashUtils";
+import { referenceKeccak256 } from "./keccakReference";
+
+/**
+ * A fixed input mapped to its expected output. The reference, when given, recomputes the output
+ * from raw bytes with an independent keccak implementation.
+ */
+type GoldenVector = {
+  name: string;
+  expected: string;
+  compute: () => string;
+  reference?: () => string;
+}
+
+/**
+ * The withdrawal fields hashed by a set of vectors
+ */
+type WithdrawalCase = {
+  name: string;
+  amount: bigint;
+  expiresAt: bigint;
+  adminFundsNonce: number;
+  coordinatorSalt: number[];
+  adminSalt: number[];
+}
+
+const PROGRAM_ID = new PublicKey("AKnL4NNf3DGWZJS6cPknBuEGnVsV4A4m5tgebLHaRSZ9");
+const COLLATERAL = new PublicKey("9hSR6S7WPtxmTojgo6GG3k4yDPecgJY292j7xrsUGWBu");
+const COORDINATOR = new PublicKey("GyGKxMyg1p9SsHfm15MkNUu1u9TN2JtTspcdmrtGUdse");
+const SENDER = new PublicKey("EdmxWPmx2WH6WgFfTdu9xfkYf3k1g5wD1zccTVySEEh1");
+const RECEIVER = new PublicKey("8SFqwqnq4whPhs8icwHA2hQg3hUoN1qrCLK1SBx3WKwe");
+const ASSET = new PublicKey("AKkzLhjhyFtM9j7WAhbaqYpFe49cXeJBg2kzLRC2PnNa");
+
+const WITHDRAWAL_CASES: WithdrawalCase[] = [
+  {
+    name: "typical",
+    amount: 1_500_000n,
+    expiresAt: 1_767_225_600n,
+    adminFundsNonce: 7,
+    coordinatorSalt: Array.from({ length: 32 }, (_, i) => i),
+    adminSalt: Array.from({ length: 32 }, (_, i) => 32 + i),
+  },
+  {
+    name: "limits",
+    amount: (1n << 64n) - 1n,
+    expiresAt: (1n << 63n) - 1n,
+    adminFundsNonce: 0xffffffff,
+    coordinatorSalt: new Array(32).fill(0xff),
+    adminSalt: new Array(32).fill(0),
+  },
+];
+
+/**
+ * The expected outputs of each withdrawal case, frozen from a known-good build
+ */
+const EXPECTED: { [caseName: string]: { [output: string]: string } } = {
+  typical: {
+    collateralStructHash: "1acba5437a98840aff2687a56caa1c93ec2b8dbf0063151790834ca9145140ce",
+    collateralDigest: "bfda3c1eeadc80c8626084f06b05796fbb8787faaf5a6496b648df6cb082f0d7",
+    coordinatorDigest: "292f63ae5925da8db3bb7f408d111c98dd48957caec268721834dc841f240af2",
+    withdrawCollateralPDA: "AK8BmSbRjo9fVs8c4Vof1fCrpgQ12fcFrZsEyNjj72Wi",
+  },
+  limits: {
+    collateralStructHash: "1050ecdf61ae7031dd367b5bfea1293557d0bbfc8253bc9e38efdc56d7fad054",
+    collateralDigest: "bac531a577a92eb8af3bdbe7b4cfe01843b8dac0b904a77b47a12836e259b87a",
+    coordinatorDigest: "1db12c7135d3d6b1a4e157cfaf67b34a8fa59909ea8ef530ee7394ab6c2d3f8e",
+    withdrawCollateralPDA: "VtnBnBmjekHV52BHbeeqFtSmJ2PjUQeJLYoWmnGMt8e",
+  },
+};
+
+/**
+ * Hashes the concatenation of the given byte strings with the reference keccak
+ * @param parts - The byte strings
+ * @returns The hash
+ */
+function referenceHash(...parts: Uint8Array[]): Buffer {
+  return Buffer.from(referenceKeccak256(Buffer.concat(parts)));
+}
+
+/**
+ * Encodes a string as UTF-8 bytes
+ * @param value - The string
+ * @returns The bytes
+ */
+function utf8(value: string): Buffer {
+  return Buffer.from(value, "utf8");
+}
+
+/**
+ * Encodes an unsigned integer as 4 big-endian bytes
+ * @param value - The integer
+ * @returns The bytes
+ */
+function uint32(value: number): Buffer {
+  const bytes = Buffer.alloc(4);
+  bytes.writeUInt32BE(value);
+  return bytes;
+}
+
+/**
+ * Encodes an unsigned integer as 8 big-endian bytes
+ * @param value - The integer
+ * @returns The bytes
+ */
+function uint64(value: bigint): Buffer {
+  const bytes = Buffer.alloc(8);
+  bytes.writeBigUInt64BE(value);
+  return bytes;
+}
+
+/**
+ * Recomputes a domain separator byte by byte
+ * @param name - The domain name
+ * @param verifyingContract - The verifying contract
+ * @param salt - The domain salt
+ * @returns The domain separator
+ */
+function referenceDomainSeparator(name: string, verifyingContract: PublicKey, salt: number[]): Buffer {
+  return referenceHash(
+    referenceHash(utf8("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract,bytes32 salt)")),
+    referenceHash(utf8(name)),
+    referenceHash(utf8("2")),
+    uint64(900n),
+    verifyingContract.toBuffer(),
+    Buffer.from(salt),
+  );
+}
+
+/**
+ * Recomputes the collateral withdraw struct hash byte by byte
+ * @param withdrawal - The withdrawal case
+ * @returns The struct hash
+ */
+function referenceCollateralStructHash(withdrawal: WithdrawalCase): Buffer {
+  return referenceHash(
+    referenceHash(utf8("Withdraw(address user,address asset,uint256 amount,address recipient,uint256 nonce)")),
+    SENDER.toBuffer(),
+    COLLATERAL.toBuffer(),
+    ASSET.toBuffer(),
+    uint64(withdrawal.amount),
+    RECEIVER.toBuffer(),
+    uint32(withdrawal.adminFundsNonce),
+  );
+}
+
+/**
+ * Recomputes the collateral withdraw digest byte by byte
+ * @param withdrawal - The withdrawal case
+ * @returns The digest
+ */
+function referenceCollateralDigest(withdrawal: WithdrawalCase): Buffer {
+  return referenceHash(
+    Buffer.from([0x19, 0x01]),
+    referenceDomainSeparator("Collateral", COLLATERAL, withdrawal.adminSalt),
+    referenceCollateralStructHash(withdrawal),
+  );
+}
+
+/**
+ * Recomputes the coordinator withdraw digest byte by byte
+ * @param withdrawal - The withdrawal case
+ * @returns The digest
+ */
+function referenceCoordinatorDigest(withdrawal: WithdrawalCase): Buffer {
+  const structHash = referenceHash(
+    referenceHash(utf8("Withdraw(address user,address collateral,address asset,uint256 amount,address recipient,uint256 nonce,uint256 expiresAt)")),
+    SENDER.toBuffer(),
+    COLLATERAL.toBuffer(),
+    ASSET.toBuffer(),
+    uint64(withdrawal.amount),
+    RECEIVER.toBuffer(),
+    uint32(withdrawal.adminFundsNonce),
+    uint64(withdrawal.expiresAt),
+  );
+  return referenceHash(
+    Buffer.from([0x19, 0x01]),
+    referenceDomainSeparator("Coordinator", COORDINATOR, withdrawal.coordinatorSalt),
+    structHash,
+  );
+}
+
+/**
+ * Builds the golden vectors of a withdrawal case
+ * @param withdrawal - The withdrawal case
+ * @returns The vectors
+ */
+function withdrawalVectors(withdrawal: WithdrawalCase): GoldenVector[] {
+  const request = {
+    amountOfAsset: new BN(withdrawal.amount.toString()),
+    signatureExpirationTime: new BN(withdrawal.expiresAt.toString()),
+    coordinatorSignatureSalt: withdrawal.coordinatorSalt,
+  };
+  const expected = EXPECTED[withdrawal.name];
+  return [
+    {
+      name: `${withdrawal.name}: Collateral.encodeWithdrawMessage`,
+      expected: expected.collateralStructHash,
+      compute: () => Collateral.encodeWithdrawMessage(COLLATERAL, SENDER, RECEIVER, ASSET, request, withdrawal.adminFundsNonce),
+      reference: () => referenceCollateralStructHash(withdrawal).toString("hex"),
+    },
+    {
+      name: `${withdrawal.name}: Collateral.getWithdrawMessage`,
+      expected: expected.collateralDigest,
+      compute: () => Collateral.getWithdrawMessage(
+        COLLATERAL, SENDER, RECEIVER, ASSET, request, withdrawal.adminSalt, withdrawal.adminFundsNonce
+      ).toString("hex"),
+      reference: () => referenceCollateralDigest(withdrawal).toString("hex"),
+    },
+    {
+      name: `${withdrawal.name}: Coordinator.getWithdrawMessage`,
+      expected: expected.coordinatorDigest,
+      compute: () => Coordinator.getWithdrawMessage(
+        COLLATERAL, COORDINATOR, SENDER, RECEIVER, ASSET, request, withdrawal.adminFundsNonce
+      ).toString("hex"),
+      reference: () => referenceCoordinatorDigest(withdrawal).toString("hex"),
+    },
+    {
+      name: `${withdrawal.name}: Collateral.generateWithdrawCollateralPDA`,
+      expected: expected.withdrawCollateralPDA,
+      compute: () => Collateral.generateWithdrawCollateralPDA(
+        COLLATERAL, SENDER, RECEIVER, ASSET, request, withdrawal.adminFundsNonce, PROGRAM_ID
+      ).toBase58(),
+      reference: () => PublicKey.findProgramAddressSync(
+        [utf8("CollateralAdminSignatures"), COLLATERAL.toBuffer(), referenceCollateralStructHash(withdrawal)],
+        PROGRAM_ID,
+      )[0].toBase58(),
+    },
+  ];
+}
+
+/**
+ * The golden vectors: known keccak answers, then the withdrawal messages and PDAs of each case
+ */
+const GOLDEN_VECTORS: GoldenVector[] = [
+  {
+    name: "keccak256 of the empty input",
+    expected: "c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470",
+    compute: () => HashUtils.keccak256Hex(""),
+    reference: () => Buffer.from(referenceKeccak256(new Uint8Array(0))).toString("hex"),
+  },
+  {
+    name: "keccak256 of `abc`",
+    expected: "4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45",
+    compute: () => HashUtils.keccak256("abc"),
+    reference: () => Buffer.from(referenceKeccak256(utf8("abc"))).toString("hex"),
+  },
+  {
+    name: "keccak256 of 200 bytes, across two blocks",
+    expected: "c716e17d494244a52e5de866ca8109aad858714034537ad2957b257d611d092e",
+    compute: () => HashUtils.keccak256Hex("a5".repeat(200)),
+    reference: () => Buffer.from(referenceKeccak256(new Uint8Array(200).fill(0xa5))).toString("hex"),
+  },
+  ...WITHDRAWAL_CASES.flatMap(withdrawalVectors),
+];
+
+// A vector passes when the library output matches both the expected value and the independent
+// reference
+for (const vector of GOLDEN_VECTORS) {
+  test(vector.name, () => {
+    const actual = vector.compute();
+    assert.equal(actual, vector.expected);
+    if (vector.reference) {
+      assert.equal(vector.reference(), actual);
+    }
+  });
+}
@@ -0,0 +1,116 @@
+/**
+ * A straightforward Keccak-256 written from the specification, independent of the hashing
+ * library used by `HashUtils`. It favours readability over speed and is only meant to
+ * cross-check the digests of the golden vectors.
+ */
+
+/**
+ * The number of bytes absorbed per permutation for a 256-bit output
+ */
+const RATE = 136;
+
+const LANE_MASK = (1n << 64n) - 1n;
+
+/**
+ * The rotation offset of each lane, indexed by `x + 5 * y`
+ */
+const ROTATION_OFFSETS = [
+  0, 1, 62, 28, 27,
+  36, 44, 6, 55, 20,
+  3, 10, 43, 25, 39,
+  41, 45, 15, 21, 8,
+  18, 2, 61, 56, 14,
+];
+
+/**
+ * The round constants of the iota step
+ */
+const ROUND_CONSTANTS = [
+  0x0000000000000001n, 0x0000000000008082n, 0x800000000000808an, 0x8000000080008000n,
+  0x000000000000808bn, 0x0000000080000001n, 0x8000000080008081n, 0x8000000000008009n,
+  0x000000000000008an, 0x0000000000000088n, 0x0000000080008009n, 0x000000008000000an,
+  0x000000008000808bn, 0x800000000000008bn, 0x8000000000008089n, 0x8000000000008003n,
+  0x8000000000008002n, 0x8000000000000080n, 0x000000000000800an, 0x800000008000000an,
+  0x8000000080008081n, 0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n,
+];
+
+/**
+ * Rotates a 64-bit lane to the left
+ * @param lane - The lane
+ * @param offset - The rotation offset, between 0 and 63
+ * @returns The rotated lane
+ */
+function rotateLeft(lane: bigint, offset: number): bigint {
+  if (offset === 0) {
+    return lane;
+  }
+  return ((lane << BigInt(offset)) | (lane >> BigInt(64 - offset))) & LANE_MASK;
+}
+
+/**
+ * Applies the Keccak-f[1600] permutation to the state in place
+ * @param state - The 25 lanes of the state, indexed by `x + 5 * y`
+ */
+function permute(state: bigint[]): void {
+  for (const roundConstant of ROUND_CONSTANTS) {
+    // Theta
+    const columns = [0, 1, 2, 3, 4].map(x =>
+      state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20]
+    );
+    for (let x = 0; x < 5; x++) {
+      const d = columns[(x + 4) % 5] ^ rotateLeft(columns[(x + 1) % 5], 1);
+      for (let y = 0; y < 5; y++) {
+        state[x + 5 * y] ^= d;
+      }
+    }
+
+    // Rho and pi
+    const rotated = new Array<bigint>(25);
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        rotated[y + 5 * ((2 * x + 3 * y) % 5)] = rotateLeft(state[x + 5 * y], ROTATION_OFFSETS[x + 5 * y]);
+      }
+    }
+
+    // Chi
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        state[x + 5 * y] = rotated[x + 5 * y] ^ (~rotated[(x + 1) % 5 + 5 * y] & LANE_MASK & rotated[(x + 2) % 5 + 5 * y]);
+      }
+    }
+
+    // Iota
+    state[0] ^= roundConstant;
+  }
+}
+
+/**
+ * Hashes the given bytes with Keccak-256, the original Keccak padding used by Ethereum rather
+ * than the SHA3-256 one
+ * @param data - The bytes to hash
+ * @returns The 32-byte hash
+ */
+export function referenceKeccak256(data: Uint8Array): Uint8Array {
+  const padded = new Uint8Array(Math.floor(data.length / RATE + 1) * RATE);
+  padded.set(data);
+  padded[data.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  const state = new Array<bigint>(25).fill(0n);
+  for (let block = 0; block < padded.length; block += RATE) {
+    for (let lane = 0; lane < RATE / 8; lane++) {
+      let value = 0n;
+      for (let byte = 7; byte >= 0; byte--) {
+        value = (value << 8n) | BigInt(padded[block + lane * 8 + byte]);
+      }
+      state[lane] ^= value;
+    }
+    permute(state);
+  }
+
+  const hash = new Uint8Array(32);
+  for (let i = 0; i < hash.length; i++) {
+    hash[i] = Number((state[Math.floor(i / 8)] >> BigInt((i % 8) * 8)) & 0xffn);
+  }
+  return hash;
+}
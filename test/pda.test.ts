@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { PublicKey } from "@solana/web3.js";
+
+import MainIdl from "../src/idl/main.json";
+import { DerivedAddress, deriveCollateral, deriveCollateralAuthority, deriveCoordinator, deriveSupportedAsset } from "../src/pda";
+import { referenceKeccak256 } from "./keccakReference";
+
+/**
+ * A seed of a PDA account in the IDL: a constant, or the key of an account or argument
+ */
+type IdlSeed = {
+  kind: string;
+  value?: number[];
+  path?: string;
+}
+
+/**
+ * An instruction account of the IDL, with the seeds of its address when it is a PDA
+ */
+type IdlInstructionAccount = {
+  name: string;
+  pda?: { seeds: IdlSeed[] };
+}
+
+const PROGRAM_ID = new PublicKey("AKnL4NNf3DGWZJS6cPknBuEGnVsV4A4m5tgebLHaRSZ9");
+
+/**
+ * The deriver of each PDA account of the IDL, by account name, given the keys of the non-constant
+ * seeds in the IDL order
+ */
+const IDL_DERIVERS: { [account: string]: (keys: PublicKey[], programId: PublicKey) => DerivedAddress } = {
+  collateral: ([id, coordinator], programId) => deriveCollateral(id, coordinator, programId),
+  collateral_authority: ([collateral], programId) => deriveCollateralAuthority(collateral, programId),
+  coordinator: ([id], programId) => deriveCoordinator(id, programId),
+  supported_asset: ([coordinator, asset], programId) => deriveSupportedAsset(coordinator, asset, programId),
+};
+
+/**
+ * Builds a distinct key for each seed path, so that swapped seeds derive another address
+ * @param path - The seed path, e.g. `new_collateral.id`
+ * @returns The key
+ */
+function seedKey(path: string): PublicKey {
+  return new PublicKey(referenceKeccak256(Buffer.from(path, "utf8")));
+}
+
+// Each distinct PDA definition of the IDL derives the same address from the IDL seeds as from the
+// `pda` deriver. A program upgrade that changes the seeds, or adds a PDA account without a
+// deriver, fails it.
+const checked = new Set<string>();
+for (const instruction of MainIdl.instructions) {
+  for (const account of instruction.accounts as IdlInstructionAccount[]) {
+    if (!account.pda) {
+      continue;
+    }
+    const seeds = account.pda.seeds;
+    const key = `${account.name}:${JSON.stringify(seeds.map(seed => seed.kind === "const" ? seed.value : seed.kind))}`;
+    if (checked.has(key)) {
+      continue;
+    }
+    checked.add(key);
+
+    test(`IDL seeds: ${instruction.name}.${account.name}`, () => {
+      const deriver = IDL_DERIVERS[account.name];
+      assert.ok(deriver, `no deriver for the ${account.name} PDA`);
+
+      const keys = seeds.filter(seed => seed.kind !== "const").map(seed => seedKey(seed.path ?? ""));
+      const [expected] = PublicKey.findProgramAddressSync(
+        seeds.map(seed => seed.kind === "const" ? Buffer.from(seed.value ?? []) : seedKey(seed.path ?? "").toBuffer()),
+        PROGRAM_ID,
+      );
+      assert.equal(deriver(keys, PROGRAM_ID).address.toBase58(), expected.toBase58());
+    });
+  }
+}
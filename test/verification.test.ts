@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { BN } from "@coral-xyz/anchor";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import nacl from "tweetnacl";
+
+import { Coordinator } from "../src/coordinator";
+import { CoordinatorMessageFields, verifyCoordinatorSignature } from "../src/verification";
+
+const EXECUTOR = Keypair.fromSeed(new Uint8Array(32).fill(7));
+
+/**
+ * Builds the coordinator withdraw message fields of a withdrawal
+ * @param amount - The amount of asset, in base units
+ * @param adminFundsNonce - The admin funds nonce of the collateral
+ * @returns The message fields
+ */
+function withdrawalFields(amount: bigint, adminFundsNonce: number): CoordinatorMessageFields {
+  return {
+    collateral: new PublicKey("9hSR6S7WPtxmTojgo6GG3k4yDPecgJY292j7xrsUGWBu"),
+    coordinator: new PublicKey("GyGKxMyg1p9SsHfm15MkNUu1u9TN2JtTspcdmrtGUdse"),
+    sender: new PublicKey("EdmxWPmx2WH6WgFfTdu9xfkYf3k1g5wD1zccTVySEEh1"),
+    receiver: new PublicKey("8SFqwqnq4whPhs8icwHA2hQg3hUoN1qrCLK1SBx3WKwe"),
+    asset: new PublicKey("AKkzLhjhyFtM9j7WAhbaqYpFe49cXeJBg2kzLRC2PnNa"),
+    withdrawRequest: {
+      amountOfAsset: new BN(amount.toString()),
+      signatureExpirationTime: new BN(1_767_225_600),
+      coordinatorSignatureSalt: Array.from({ length: 32 }, (_, i) => i),
+    },
+    adminFundsNonce,
+  };
+}
+
+/**
+ * Signs the coordinator withdraw message of the given fields with the test executor
+ * @param fields - The message fields
+ * @returns The coordinator signature
+ */
+function signWithdrawal(fields: CoordinatorMessageFields): Uint8Array {
+  const message = Coordinator.getWithdrawMessage(
+    fields.collateral,
+    fields.coordinator,
+    fields.sender,
+    fields.receiver,
+    fields.asset,
+    fields.withdrawRequest,
+    fields.adminFundsNonce,
+  );
+  return nacl.sign.detached(message, EXECUTOR.secretKey);
+}
+
+test("diagnoses a large amount whose scaled candidates exceed a u64", () => {
+  // 10^18 fits in a u64, but 10^20 and above do not
+  const signature = signWithdrawal(withdrawalFields(10n ** 17n, 3));
+  const verification = verifyCoordinatorSignature(withdrawalFields(10n ** 18n, 3), signature, [EXECUTOR.publicKey]);
+  assert.equal(verification.valid, false);
+  assert.equal(verification.diagnosis.length, 1);
+  assert.match(verification.diagnosis[0], /^Wrong amount: the signature was issued for 100000000000000000 base units/);
+});
+
+test("diagnoses a nonce at the u32 limit without trying nonces above it", () => {
+  const signature = signWithdrawal(withdrawalFields(1_500_000n, 0xfffffffe));
+  const verification = verifyCoordinatorSignature(withdrawalFields(1_500_000n, 0xffffffff), signature, [EXECUTOR.publicKey]);
+  assert.equal(verification.valid, false);
+  assert.equal(verification.diagnosis.length, 1);
+  assert.match(verification.diagnosis[0], /^Wrong nonce: the signature was issued for adminFundsNonce 4294967294/);
+});